@@ -0,0 +1,94 @@
+/**
+ * Policy command - dry-run a tool access policy against sample calls
+ */
+
+import * as fs from 'fs/promises';
+import chalk from 'chalk';
+import yaml from 'js-yaml';
+import { evaluatePolicy, loadPolicyFile } from '../../core/policy.js';
+import type { AuthContext, PolicyDocument, PolicyEffect } from '../../types.js';
+
+/**
+ * Sample call in a calls file
+ */
+interface SampleCall {
+  name?: string;
+  tool: string;
+  input?: unknown;
+  metadata?: Record<string, string | number | boolean>;
+  auth?: { principal: string; scopes?: string[]; claims?: Record<string, unknown> };
+  /** ISO timestamp to evaluate time windows at (default: now) */
+  at?: string;
+  /** Expected effect; a mismatch fails the command */
+  expect?: PolicyEffect;
+}
+
+export async function policyTestCommand(policyPath: string, callsPath: string): Promise<void> {
+  let policy: PolicyDocument;
+  let calls: SampleCall[];
+
+  try {
+    policy = loadPolicyFile(policyPath);
+    calls = await loadCalls(callsPath);
+  } catch (error) {
+    console.error(chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`));
+    process.exit(1);
+  }
+
+  console.log(chalk.blue(`🛡️  Testing ${policyPath} against ${calls.length} call(s)\n`));
+
+  let failures = 0;
+
+  for (const [index, call] of calls.entries()) {
+    const label = call.name || `#${index + 1} ${call.tool}`;
+    const at = call.at ? new Date(call.at) : new Date();
+    const auth: AuthContext | undefined = call.auth && {
+      principal: call.auth.principal,
+      scopes: call.auth.scopes || [],
+      claims: call.auth.claims || {},
+    };
+
+    const decision = evaluatePolicy(policy, { tool: call.tool, input: call.input, metadata: call.metadata, auth }, at);
+    const color = decision.effect === 'allow' ? chalk.green : decision.effect === 'deny' ? chalk.red : chalk.yellow;
+    const source = decision.rule ? `rule ${decision.rule}` : 'default';
+    let line = `${label}: ${color(decision.effect)} ${chalk.gray(`(${source})`)}`;
+
+    if (call.expect && call.expect !== decision.effect) {
+      failures++;
+      line = `${chalk.red('✗')} ${line} ${chalk.red(`expected ${call.expect}`)}`;
+    } else if (call.expect) {
+      line = `${chalk.green('✓')} ${line}`;
+    } else {
+      line = `  ${line}`;
+    }
+
+    console.log(line);
+    if (decision.message) {
+      console.log(chalk.gray(`    ${decision.message}`));
+    }
+  }
+
+  if (failures > 0) {
+    console.log(chalk.red(`\n❌ ${failures} call(s) did not get the expected decision`));
+    process.exit(1);
+  }
+
+  console.log(chalk.green('\n✅ Policy test complete'));
+}
+
+/**
+ * Read a JSON or YAML list of sample calls
+ */
+async function loadCalls(callsPath: string): Promise<SampleCall[]> {
+  const text = await fs.readFile(callsPath, 'utf-8');
+  const calls = callsPath.endsWith('.yaml') || callsPath.endsWith('.yml') ? yaml.load(text) : JSON.parse(text);
+
+  if (!Array.isArray(calls) || calls.some((call) => typeof call?.tool !== 'string')) {
+    throw new Error(`${callsPath} must be a list of calls, each with a "tool" name`);
+  }
+  if (calls.some((call) => call.at !== undefined && Number.isNaN(new Date(call.at).getTime()))) {
+    throw new Error(`${callsPath} has a call with an invalid "at" timestamp`);
+  }
+
+  return calls as SampleCall[];
+}
@@ -10,6 +10,7 @@ import { initCommand } from './commands/init.js';
 import { generateCommand } from './commands/generate.js';
 import { runCommand } from './commands/run.js';
 import { testCommand } from './commands/test.js';
+import { policyTestCommand } from './commands/policy.js';
 
 const program = new Command();
 
@@ -53,6 +54,16 @@ program
   .option('-c, --coverage', 'Generate coverage report', false)
   .action(testCommand);
 
+// Policy command
+const policy = program
+  .command('policy')
+  .description('Work with tool access policies');
+
+policy
+  .command('test <policy> <calls>')
+  .description('Dry-run a policy file against a JSON/YAML list of sample calls')
+  .action(policyTestCommand);
+
 // Docs command
 program
   .command('docs [output]')
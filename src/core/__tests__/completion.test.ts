@@ -0,0 +1,87 @@
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { z } from 'zod';
+import { enumValuesFor, rankCompletions } from '../completion.js';
+import { definePrompt } from '../prompt.js';
+import { defineResource } from '../resource.js';
+import { createMCPServer } from '../server.js';
+import { connectClient } from './helpers.js';
+
+describe('enumValuesFor', () => {
+  enum Level { Low = 1, High = 2 }
+  enum Color { Red = 'red', Blue = 'blue' }
+
+  test('should unwrap optional and default fields and skip numeric reverse mappings', () => {
+    const schema = z.object({
+      tone: z.enum(['gentle', 'strict']).optional(),
+      color: z.nativeEnum(Color).default(Color.Red),
+      level: z.nativeEnum(Level),
+      path: z.string(),
+    });
+
+    expect(enumValuesFor(schema, 'tone')).toEqual(['gentle', 'strict']);
+    expect(enumValuesFor(schema, 'color')).toEqual(['red', 'blue']);
+    expect(enumValuesFor(schema, 'level')).toEqual([]);
+    expect(enumValuesFor(schema, 'path')).toBeUndefined();
+    expect(enumValuesFor(z.string(), 'tone')).toBeUndefined();
+  });
+});
+
+describe('rankCompletions', () => {
+  test('should rank prefix matches before substring matches, ignoring case and duplicates', () => {
+    expect(rankCompletions(['status', 'Users', 'orders', 'users', 'Users'], 'us')).toEqual({
+      values: ['Users', 'users', 'status'],
+      total: 3,
+      hasMore: false,
+    });
+    expect(rankCompletions(['audit_users', 'users'], 'users').values).toEqual(['users', 'audit_users']);
+  });
+
+  test('should truncate to 100 values', () => {
+    const candidates = Array.from({ length: 150 }, (_, i) => `table_${i}`);
+
+    expect(rankCompletions(candidates, '')).toMatchObject({ total: 150, hasMore: true });
+    expect(rankCompletions(candidates, '').values).toHaveLength(100);
+  });
+});
+
+describe('completion requests', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    const mcp = createMCPServer({ name: 'test', logging: { level: 'fatal' } });
+    mcp.registerPrompt(definePrompt({
+      name: 'review',
+      args: z.object({ tone: z.enum(['gentle', 'strict']), path: z.string() }),
+      handler: async () => [],
+      complete: { path: async () => ['src/a.ts', 'src/b.ts'] },
+    }));
+    mcp.registerResource(defineResource({
+      name: 'table',
+      uri: 'db://tables/{name}',
+      handler: async () => '',
+      complete: { name: async () => ['orders', 'users'] },
+    }));
+    client = await connectClient(mcp);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  test('should complete prompt arguments from enums and callbacks', async () => {
+    const complete = (name: string, value: string) =>
+      client.complete({ ref: { type: 'ref/prompt', name: 'review' }, argument: { name, value } });
+
+    expect((await complete('tone', 's')).completion.values).toEqual(['strict']);
+    expect((await complete('path', 'b')).completion.values).toEqual(['src/b.ts']);
+  });
+
+  test('should complete resource template variables from callbacks', async () => {
+    const result = await client.complete({
+      ref: { type: 'ref/resource', uri: 'db://tables/{name}' },
+      argument: { name: 'name', value: 'u' },
+    });
+
+    expect(result.completion).toEqual({ values: ['users'], total: 1, hasMore: false });
+  });
+});
@@ -0,0 +1,74 @@
+import { z } from 'zod';
+import { content, toContentResult } from '../content.js';
+import { createMCPServer } from '../server.js';
+import { defineTool } from '../tool.js';
+import { connectClient } from './helpers.js';
+
+describe('content', () => {
+  test('should encode binary data as base64 and pass base64 strings through', () => {
+    expect(content.image(new Uint8Array([1, 2, 3]), 'image/png')).toEqual({ type: 'image', data: 'AQID', mimeType: 'image/png' });
+    expect(content.audio('AQID', 'audio/wav')).toEqual({ type: 'audio', data: 'AQID', mimeType: 'audio/wav' });
+    expect(content.resource('file:///a.txt', 'hi', 'text/plain')).toEqual({
+      type: 'resource',
+      resource: { uri: 'file:///a.txt', mimeType: 'text/plain', text: 'hi' },
+    });
+    expect(content.resource('file:///a.bin', new Uint8Array([255]))).toEqual({
+      type: 'resource',
+      resource: { uri: 'file:///a.bin', mimeType: undefined, blob: '/w==' },
+    });
+    expect(content.resourceLink('db://tables/users', 'users', { mimeType: 'text/csv' })).toEqual({
+      type: 'resource_link',
+      uri: 'db://tables/users',
+      name: 'users',
+      mimeType: 'text/csv',
+    });
+  });
+});
+
+describe('toContentResult', () => {
+  test('should accept a block, a list of blocks or a result, and leave plain output alone', () => {
+    const text = content.text('hi');
+
+    expect(toContentResult(text)).toEqual({ content: [text] });
+    expect(toContentResult([text, text])).toEqual({ content: [text, text] });
+    expect(toContentResult(content.result([text], { n: 1 }))).toEqual({ content: [text], structured: { n: 1 } });
+
+    // Look-alikes not built with the helpers are ordinary output
+    expect(toContentResult({ type: 'text', text: 'hi' })).toBeUndefined();
+    expect(toContentResult([])).toBeUndefined();
+    expect(toContentResult([text, { type: 'text', text: 'hi' }])).toBeUndefined();
+  });
+});
+
+describe('rich tool results', () => {
+  test('should send content blocks before the structured output', async () => {
+    const mcp = createMCPServer({ name: 'test', logging: { level: 'fatal' } });
+    mcp.registerTool(defineTool({
+      name: 'chart',
+      input: z.object({}),
+      output: z.object({ points: z.number() }),
+      handler: async () => content.result([content.image(new Uint8Array([1]), 'image/png')], { points: 3 }),
+    }));
+    mcp.registerTool(defineTool({
+      name: 'link',
+      input: z.object({}),
+      handler: async () => content.resourceLink('db://tables/users', 'users'),
+    }));
+    const client = await connectClient(mcp);
+
+    const chart = await client.callTool({ name: 'chart', arguments: {} });
+    const link = await client.callTool({ name: 'link', arguments: {} });
+    await client.close();
+
+    expect(chart).toMatchObject({
+      content: [
+        { type: 'image', data: 'AQ==', mimeType: 'image/png' },
+        { type: 'text', text: JSON.stringify({ points: 3 }, null, 2) },
+      ],
+      structuredContent: { points: 3 },
+    });
+    // Content without a structured part sends no text fallback
+    expect(link.content).toEqual([{ type: 'resource_link', uri: 'db://tables/users', name: 'users' }]);
+    expect(link.structuredContent).toBeUndefined();
+  });
+});
@@ -0,0 +1,161 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ListRootsRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { createMCPServer } from '../server.js';
+import { defineTool } from '../tool.js';
+import type { MCPServerInstance } from '../../types.js';
+import { connectClient } from './helpers.js';
+
+async function connect(
+  setup: (mcp: MCPServerInstance) => void,
+  capabilities: Parameters<typeof connectClient>[1] = {}
+) {
+  const mcp = createMCPServer({ name: 'test', logging: { level: 'fatal' } });
+  setup(mcp);
+  return { mcp, client: await connectClient(mcp, capabilities) };
+}
+
+describe('client requests from tool handlers', () => {
+  let client: Client | undefined;
+
+  afterEach(async () => {
+    await client?.close();
+    client = undefined;
+  });
+
+  test('should sample through the client and return its completion', async () => {
+    const connection = await connect((mcp) => {
+      mcp.registerTool(defineTool({
+        name: 'summarize',
+        input: z.object({ text: z.string() }),
+        handler: async ({ input, ctx }) => {
+          const result = await ctx.sample({
+            messages: [{ role: 'user', content: `Summarize: ${input.text}` }],
+            systemPrompt: 'Be brief',
+            maxTokens: 50,
+          });
+          return { summary: result.content.type === 'text' ? result.content.text : '', model: result.model };
+        },
+      }));
+    }, { sampling: {} });
+    client = connection.client;
+
+    const requests: unknown[] = [];
+    client.setRequestHandler(CreateMessageRequestSchema, async (request) => {
+      requests.push(request.params);
+      return { role: 'assistant', content: { type: 'text', text: 'Short.' }, model: 'stub-model' };
+    });
+
+    const result = await client.callTool({ name: 'summarize', arguments: { text: 'a long text' } });
+
+    expect(result.structuredContent).toEqual({ summary: 'Short.', model: 'stub-model' });
+    expect(requests).toEqual([
+      expect.objectContaining({
+        messages: [{ role: 'user', content: { type: 'text', text: 'Summarize: a long text' } }],
+        systemPrompt: 'Be brief',
+        maxTokens: 50,
+      }),
+    ]);
+  });
+
+  test('should fail the call when the client does not support sampling', async () => {
+    const connection = await connect((mcp) => {
+      mcp.registerTool(defineTool({
+        name: 'summarize',
+        input: z.object({}),
+        handler: async ({ ctx }) => ctx.sample({ messages: [{ role: 'user', content: 'Hi' }], maxTokens: 10 }),
+      }));
+    });
+    client = connection.client;
+
+    const result = await client.callTool({ name: 'summarize', arguments: {} });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.stringify(result.content)).toContain('Client does not support sampling');
+  });
+
+  test('should elicit input and read roots from the client', async () => {
+    const connection = await connect((mcp) => {
+      mcp.registerTool(defineTool({
+        name: 'pick',
+        input: z.object({}),
+        handler: async ({ ctx }) => {
+          const answer = await ctx.elicit('Which project?', z.object({ project: z.string() }));
+          const roots = await ctx.roots();
+          return { answer, roots: roots.map((root) => root.uri) };
+        },
+      }));
+    }, { elicitation: {}, roots: {} });
+    client = connection.client;
+
+    client.setRequestHandler(ElicitRequestSchema, async () => ({ action: 'accept', content: { project: 'api' } }));
+    client.setRequestHandler(ListRootsRequestSchema, async () => ({ roots: [{ uri: 'file:///work/api' }] }));
+
+    const result = await client.callTool({ name: 'pick', arguments: {} });
+
+    expect(result.structuredContent).toEqual({
+      answer: { action: 'accept', data: { project: 'api' } },
+      roots: ['file:///work/api'],
+    });
+  });
+});
+
+describe('progress and cancellation', () => {
+  test('should send progress to requests carrying a progress token and skip it otherwise', async () => {
+    const { client } = await connect((mcp) => {
+      mcp.registerTool(defineTool({
+        name: 'import',
+        input: z.object({}),
+        handler: async ({ ctx }) => {
+          await ctx.progress(1, 2, 'Half way');
+          await ctx.progress(2, 2);
+          return { done: true };
+        },
+      }));
+    });
+
+    const updates: unknown[] = [];
+    await client.callTool({ name: 'import', arguments: {} }, undefined, { onprogress: (update) => updates.push(update) });
+    const untracked = await client.callTool({ name: 'import', arguments: {} });
+    await client.close();
+
+    expect(updates).toEqual([{ progress: 1, total: 2, message: 'Half way' }, { progress: 2, total: 2 }]);
+    expect(untracked.structuredContent).toEqual({ done: true });
+  });
+
+  test('should abort ctx.signal when the client cancels the call', async () => {
+    let started!: () => void;
+    const running = new Promise<void>((resolve) => {
+      started = resolve;
+    });
+    let aborted!: (reason: unknown) => void;
+    const cancelled = new Promise<unknown>((resolve) => {
+      aborted = resolve;
+    });
+    const { client } = await connect((mcp) => {
+      mcp.registerTool(defineTool({
+        name: 'wait',
+        input: z.object({}),
+        handler: async ({ ctx }) => {
+          ctx.signal.addEventListener('abort', () => aborted(ctx.signal.reason));
+          started();
+          await cancelled;
+          return {};
+        },
+      }));
+    });
+
+    const controller = new AbortController();
+    const call = client.callTool({ name: 'wait', arguments: {} }, undefined, { signal: controller.signal });
+    await running;
+    controller.abort('user gave up');
+
+    await expect(call).rejects.toThrow();
+    expect(await cancelled).toBe('user gave up');
+    await client.close();
+  });
+});
@@ -0,0 +1,18 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { MCPServerInstance } from '../../types.js';
+
+/**
+ * Connect a stub client to a server in-process; handlers set on the client
+ * answer the server's sampling, elicitation and roots requests
+ */
+export async function connectClient(
+  mcp: MCPServerInstance,
+  capabilities: NonNullable<ConstructorParameters<typeof Client>[1]>['capabilities'] = {}
+): Promise<Client> {
+  const client = new Client({ name: 'stub', version: '1.0.0' }, { capabilities });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await mcp.server.connect(serverTransport);
+  await client.connect(clientTransport);
+  return client;
+}
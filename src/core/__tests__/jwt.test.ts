@@ -0,0 +1,234 @@
+import { createHmac, generateKeyPairSync, sign, JsonWebKey, KeyObject } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createJwtVerifier, toAuthInfo } from '../jwt.js';
+import { authChallenge, authenticateRequest } from '../middleware.js';
+import type { AuthOptions, JwtOptions } from '../../types.js';
+
+const AUDIENCE = 'https://mcp.example.com/mcp';
+const ISSUER = 'https://idp.example.com';
+
+function generateKey(kid: string, type: 'rsa' | 'ec' = 'rsa'): { privateKey: KeyObject; jwk: JsonWebKey } {
+  const { privateKey, publicKey } = type === 'rsa'
+    ? generateKeyPairSync('rsa', { modulusLength: 2048 })
+    : generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  return { privateKey, jwk: { ...publicKey.export({ format: 'jwk' }), kid } };
+}
+
+function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Sign a token with RS256, ES256 or HS256 (privateKey is the shared secret for HS256)
+ */
+function signToken(
+  claims: Record<string, unknown>,
+  privateKey: KeyObject | Buffer,
+  header: { alg?: string; kid?: string } = {}
+): string {
+  const alg = header.alg || 'RS256';
+  const data = `${encode({ typ: 'JWT', ...header, alg })}.${encode(claims)}`;
+  const signature = alg === 'HS256'
+    ? createHmac('sha256', privateKey as Buffer).update(data).digest()
+    : sign('sha256', Buffer.from(data), alg === 'ES256'
+      ? { key: privateKey as KeyObject, dsaEncoding: 'ieee-p1363' }
+      : privateKey as KeyObject);
+  return `${data}.${signature.toString('base64url')}`;
+}
+
+function validClaims(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  const now = Math.floor(Date.now() / 1000);
+  return { sub: 'user-1', iss: ISSUER, aud: AUDIENCE, iat: now, exp: now + 300, ...overrides };
+}
+
+describe('createJwtVerifier', () => {
+  const rsa = generateKey('rsa-1');
+  const ec = generateKey('ec-1', 'ec');
+  const options: JwtOptions = { keys: [rsa.jwk, ec.jwk], audience: AUDIENCE, issuer: ISSUER, clockTolerance: 0 };
+  const verify = createJwtVerifier(options);
+
+  test('should require a key source and an audience', () => {
+    expect(() => createJwtVerifier({ audience: AUDIENCE })).toThrow('JWT auth requires jwt.jwksFile or jwt.keys');
+    expect(() => createJwtVerifier({ keys: [rsa.jwk], audience: [] })).toThrow('JWT auth requires jwt.audience');
+  });
+
+  test('should accept tokens signed with a configured key and return their claims', async () => {
+    const claims = validClaims({ scope: 'read write' });
+
+    await expect(verify(signToken(claims, rsa.privateKey, { kid: 'rsa-1' }))).resolves.toEqual(claims);
+    await expect(verify(signToken(claims, ec.privateKey, { alg: 'ES256', kid: 'ec-1' }))).resolves.toEqual(claims);
+    // Without a kid every key of the algorithm's type is tried
+    await expect(verify(signToken(claims, rsa.privateKey))).resolves.toEqual(claims);
+  });
+
+  test('should reject tampered and foreign tokens', async () => {
+    const token = signToken(validClaims(), rsa.privateKey, { kid: 'rsa-1' });
+    const [header, , signature] = token.split('.');
+    const tampered = `${header}.${encode(validClaims({ sub: 'admin' }))}.${signature}`;
+    const foreign = signToken(validClaims(), generateKey('rsa-1').privateKey, { kid: 'rsa-1' });
+
+    await expect(verify(tampered)).rejects.toThrow('Invalid token signature');
+    await expect(verify(foreign)).rejects.toThrow('Invalid token signature');
+    await expect(verify('not-a-token')).rejects.toThrow('Malformed token');
+    await expect(verify(`${header}.!!.${signature}`)).rejects.toThrow('Malformed token');
+  });
+
+  test('should only accept configured algorithms with keys of the matching type', async () => {
+    const secret = Buffer.from('shared-secret');
+    const hmacKey: JsonWebKey = { kty: 'oct', k: secret.toString('base64url'), kid: 'hs-1' };
+    const claims = validClaims();
+
+    await expect(verify(signToken(claims, rsa.privateKey, { alg: 'none', kid: 'rsa-1' })))
+      .rejects.toThrow('Token algorithm "none" is not accepted');
+    // HS256 is off by default, so an RSA public key can't be abused as an HMAC secret
+    await expect(verify(signToken(claims, secret, { alg: 'HS256', kid: 'rsa-1' })))
+      .rejects.toThrow('Token algorithm "HS256" is not accepted');
+    await expect(verify(signToken(claims, ec.privateKey, { alg: 'ES256', kid: 'rsa-1' })))
+      .rejects.toThrow('No key found for kid "rsa-1"');
+    await expect(verify(signToken(claims, rsa.privateKey, { kid: 'unknown' })))
+      .rejects.toThrow('No key found for kid "unknown"');
+
+    const hmac = createJwtVerifier({ keys: [hmacKey], audience: AUDIENCE, algorithms: ['HS256'] });
+    await expect(hmac(signToken(claims, secret, { alg: 'HS256', kid: 'hs-1' }))).resolves.toEqual(claims);
+    await expect(hmac(signToken(claims, Buffer.from('other'), { alg: 'HS256', kid: 'hs-1' })))
+      .rejects.toThrow('Invalid token signature');
+  });
+
+  test('should reject expired, not yet valid and non-expiring tokens', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const sign = (claims: Record<string, unknown>) => signToken(claims, rsa.privateKey, { kid: 'rsa-1' });
+
+    await expect(verify(sign(validClaims({ exp: now - 10 })))).rejects.toThrow('Token expired');
+    await expect(verify(sign(validClaims({ nbf: now + 10 })))).rejects.toThrow('Token not yet valid');
+    await expect(verify(sign(validClaims({ exp: undefined })))).rejects.toThrow('Token has no expiration');
+
+    const lenient = createJwtVerifier({ ...options, clockTolerance: 60, requireExpiration: false });
+    await expect(lenient(sign(validClaims({ exp: now - 10 })))).resolves.toBeDefined();
+    await expect(lenient(sign(validClaims({ nbf: now + 10 })))).resolves.toBeDefined();
+    await expect(lenient(sign(validClaims({ exp: undefined })))).resolves.toBeDefined();
+  });
+
+  test('should reject tokens for another audience or from another issuer', async () => {
+    const sign = (claims: Record<string, unknown>) => signToken(claims, rsa.privateKey, { kid: 'rsa-1' });
+
+    await expect(verify(sign(validClaims({ aud: 'https://other.example.com' }))))
+      .rejects.toThrow('Token audience is not accepted');
+    await expect(verify(sign(validClaims({ aud: undefined })))).rejects.toThrow('Token audience is not accepted');
+    await expect(verify(sign(validClaims({ aud: ['https://other.example.com', AUDIENCE] })))).resolves.toBeDefined();
+    await expect(verify(sign(validClaims({ iss: 'https://evil.example.com' }))))
+      .rejects.toThrow('Token issuer "https://evil.example.com" is not accepted');
+  });
+
+  describe('with a JWKS file', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'jwks-'));
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should reload the file for an unknown kid at most every 30 seconds', async () => {
+      const jwksFile = join(dir, 'jwks.json');
+      const rotated = generateKey('rsa-2');
+      writeFileSync(jwksFile, JSON.stringify({ keys: [rsa.jwk] }));
+      const fromFile = createJwtVerifier({ jwksFile, audience: AUDIENCE });
+      const token = signToken(validClaims(), rotated.privateKey, { kid: 'rsa-2' });
+
+      await expect(fromFile(signToken(validClaims(), rsa.privateKey, { kid: 'rsa-1' }))).resolves.toBeDefined();
+
+      writeFileSync(jwksFile, JSON.stringify({ keys: [rsa.jwk, rotated.jwk] }));
+      await expect(fromFile(token)).rejects.toThrow('No key found for kid "rsa-2"');
+
+      const later = Date.now() + 31 * 1000;
+      jest.spyOn(Date, 'now').mockReturnValue(later);
+      await expect(fromFile(signToken(validClaims({ exp: later / 1000 + 300 }), rotated.privateKey, { kid: 'rsa-2' })))
+        .resolves.toBeDefined();
+    });
+
+    test('should reject a file without a keys array', async () => {
+      const jwksFile = join(dir, 'jwks.json');
+      writeFileSync(jwksFile, JSON.stringify({ key: rsa.jwk }));
+      const fromFile = createJwtVerifier({ jwksFile, audience: AUDIENCE });
+
+      await expect(fromFile(signToken(validClaims(), rsa.privateKey, { kid: 'rsa-1' })))
+        .rejects.toThrow(`JWKS file "${jwksFile}" has no "keys" array`);
+    });
+  });
+});
+
+describe('toAuthInfo', () => {
+  test('should take the principal from sub, then the client ID, then a token fingerprint', () => {
+    const withSubject = toAuthInfo('t1', { sub: 'user-1', azp: 'app', scope: 'read write', exp: 100 });
+    const withClient = toAuthInfo('t2', { client_id: 'app', scp: ['read'] });
+    const anonymous = toAuthInfo('t3', {});
+
+    expect(withSubject).toEqual({
+      token: 't1',
+      clientId: 'app',
+      scopes: ['read', 'write'],
+      expiresAt: 100,
+      extra: { principal: 'user-1', claims: { sub: 'user-1', azp: 'app', scope: 'read write', exp: 100 } },
+    });
+    expect(withClient.extra?.principal).toBe('app');
+    expect(withClient.scopes).toEqual(['read']);
+    expect(anonymous.extra?.principal).toMatch(/^token:[0-9a-f]{16}$/);
+    expect(toAuthInfo('t4', {}).extra?.principal).not.toBe(anonymous.extra?.principal);
+  });
+});
+
+describe('authenticateRequest', () => {
+  const rsa = generateKey('rsa-1');
+  const options: AuthOptions = { type: 'jwt', jwt: { keys: [rsa.jwk], audience: AUDIENCE } };
+  const request = (authorization?: string) => ({
+    headers: { host: 'mcp.example.com', ...(authorization ? { authorization } : {}) },
+  } as Parameters<typeof authenticateRequest>[1]);
+
+  test('should attach the verified caller to the request', async () => {
+    const req = request(`Bearer ${signToken(validClaims({ scope: 'read' }), rsa.privateKey, { kid: 'rsa-1' })}`);
+
+    await expect(authenticateRequest(options, req)).resolves.toBeNull();
+    expect(req.auth).toMatchObject({ scopes: ['read'], extra: { principal: 'user-1' } });
+  });
+
+  test('should challenge requests without a token and with an invalid token', async () => {
+    const missing = request();
+    const expired = request(`Bearer ${signToken(validClaims({ exp: 1 }), rsa.privateKey, { kid: 'rsa-1' })}`);
+
+    const missingFailure = await authenticateRequest(options, missing);
+    const expiredFailure = await authenticateRequest(options, expired);
+
+    expect(missingFailure).toEqual({ error: 'Authentication required', message: 'Missing jwt token' });
+    expect(authChallenge(options, missing, missingFailure!)).toBe(
+      'Bearer resource_metadata="http://mcp.example.com/.well-known/oauth-protected-resource"'
+    );
+    expect(expiredFailure).toEqual({ error: 'Authentication failed', message: 'Token expired' });
+    expect(authChallenge(options, expired, expiredFailure!)).toBe(
+      'Bearer resource_metadata="http://mcp.example.com/.well-known/oauth-protected-resource", ' +
+      'error="invalid_token", error_description="Token expired"'
+    );
+    expect(expired.auth).toBeUndefined();
+  });
+
+  test('should let validate reject a verified token or name its caller', async () => {
+    const token = signToken(validClaims(), rsa.privateKey, { kid: 'rsa-1' });
+    const rejecting: AuthOptions = { ...options, validate: async () => false };
+    const naming: AuthOptions = { ...options, validate: async () => ({ principal: 'alice', scopes: ['admin'] }) };
+    const req = request(`Bearer ${token}`);
+
+    await expect(authenticateRequest(rejecting, request(`Bearer ${token}`)))
+      .resolves.toEqual({ error: 'Authentication failed', message: 'Invalid token' });
+    await expect(authenticateRequest(naming, req)).resolves.toBeNull();
+    expect(req.auth).toMatchObject({ scopes: ['admin'], extra: { principal: 'alice' } });
+  });
+
+  test('should not challenge API key requests with a bearer scheme', () => {
+    const failure = { error: 'Authentication required', message: 'Missing apiKey token' };
+    expect(authChallenge({ type: 'apiKey' }, request(), failure)).toBeUndefined();
+  });
+});
@@ -0,0 +1,214 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ElicitRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { evaluatePolicy, loadPolicyFile, parsePolicy } from '../policy.js';
+import { createMCPServer } from '../server.js';
+import { defineTool } from '../tool.js';
+import type { AuthContext, PolicyAuditRecord, PolicyDocument } from '../../types.js';
+
+describe('evaluatePolicy', () => {
+  test('should let the first matching rule decide and fall back to the default', () => {
+    const policy: PolicyDocument = {
+      default: 'deny',
+      rules: [
+        { id: 'protect-seed-rows', effect: 'deny', tools: 'delete_*', input: [{ field: 'id', lt: 100 }], message: 'Seed rows cannot be deleted' },
+        { effect: 'confirm', tools: 'delete_*' },
+        { effect: 'allow', tools: ['get_*', 'list_*'] },
+      ],
+    };
+
+    expect(evaluatePolicy(policy, { tool: 'delete_user', input: { id: 5 } })).toEqual({
+      effect: 'deny',
+      rule: 'protect-seed-rows',
+      message: 'Seed rows cannot be deleted',
+    });
+    expect(evaluatePolicy(policy, { tool: 'delete_user', input: { id: 500 } })).toEqual({ effect: 'confirm', rule: 'rules[1]' });
+    expect(evaluatePolicy(policy, { tool: 'list_users' })).toEqual({ effect: 'allow', rule: 'rules[2]' });
+    expect(evaluatePolicy(policy, { tool: 'update_user' })).toEqual({ effect: 'deny' });
+    expect(evaluatePolicy({ rules: [] }, { tool: 'update_user' })).toEqual({ effect: 'allow' });
+  });
+
+  test('should match tool globs against the whole name', () => {
+    const policy: PolicyDocument = { default: 'allow', rules: [{ effect: 'deny', tools: ['db.*', 'rm_?'] }] };
+    const effect = (tool: string) => evaluatePolicy(policy, { tool }).effect;
+
+    expect(effect('db.query')).toBe('deny');
+    expect(effect('dbxquery')).toBe('allow');
+    expect(effect('rm_f')).toBe('deny');
+    expect(effect('rm_rf')).toBe('allow');
+    expect(effect('my_db.query')).toBe('allow');
+  });
+
+  test('should compare input fields only against values of the same type', () => {
+    const rule = (input: PolicyDocument['rules'][number]['input']): PolicyDocument => ({ rules: [{ effect: 'deny', input }] });
+    const effect = (policy: PolicyDocument, input: unknown) => evaluatePolicy(policy, { tool: 't', input }).effect;
+
+    const small = rule([{ field: 'filter.id', lt: 100 }]);
+    expect(effect(small, { filter: { id: 99 } })).toBe('deny');
+    expect(effect(small, { filter: { id: 100 } })).toBe('allow');
+    expect(effect(small, { filter: { id: '5' } })).toBe('allow');
+    expect(effect(small, {})).toBe('allow');
+
+    const range = rule([{ field: 'n', gte: 1, lte: 3 }]);
+    expect([0, 1, 3, 4].map((n) => effect(range, { n }))).toEqual(['allow', 'deny', 'deny', 'allow']);
+
+    const sets = rule([{ field: 'env', in: ['prod', 'staging'] }, { field: 'user', nin: ['root'] }]);
+    expect(effect(sets, { env: 'prod', user: 'bob' })).toBe('deny');
+    expect(effect(sets, { env: 'prod', user: 'root' })).toBe('allow');
+    expect(effect(sets, { env: 'dev', user: 'bob' })).toBe('allow');
+
+    const checks = rule([{ field: 'path', matches: '^/etc/' }, { field: 'force', exists: false }, { field: 'mode', ne: 'dry-run' }]);
+    expect(effect(checks, { path: '/etc/passwd', mode: 'apply' })).toBe('deny');
+    expect(effect(checks, { path: '/etc/passwd', mode: 'dry-run' })).toBe('allow');
+    expect(effect(checks, { path: '/etc/passwd', mode: 'apply', force: true })).toBe('allow');
+    expect(effect(checks, { path: '/home/me' })).toBe('allow');
+
+    expect(effect(rule([{ field: 'tags', eq: ['a', 'b'] }]), { tags: ['a', 'b'] })).toBe('deny');
+  });
+
+  test('should match principals by id, scopes and claims, never without auth', () => {
+    const policy: PolicyDocument = {
+      rules: [{ effect: 'deny', principal: { ids: 'user:*', scopes: ['write'], claims: { role: ['admin', 'owner'] } } }],
+    };
+    const auth = (overrides: Partial<AuthContext>): AuthContext => ({
+      principal: 'user:alice',
+      scopes: ['read', 'write'],
+      claims: { role: 'admin' },
+      ...overrides,
+    });
+    const effect = (caller?: AuthContext) => evaluatePolicy(policy, { tool: 't', auth: caller }).effect;
+
+    expect(effect(auth({}))).toBe('deny');
+    expect(effect(auth({ claims: { role: ['viewer', 'owner'] } }))).toBe('deny');
+    expect(effect(auth({ principal: 'service:ci' }))).toBe('allow');
+    expect(effect(auth({ scopes: ['read'] }))).toBe('allow');
+    expect(effect(auth({ claims: { role: 'viewer' } }))).toBe('allow');
+    expect(effect(undefined)).toBe('allow');
+  });
+
+  test('should match tool metadata', () => {
+    const policy: PolicyDocument = { rules: [{ effect: 'confirm', metadata: { destructive: true } }] };
+
+    expect(evaluatePolicy(policy, { tool: 't', metadata: { destructive: true } }).effect).toBe('confirm');
+    expect(evaluatePolicy(policy, { tool: 't', metadata: { destructive: 'true' } }).effect).toBe('allow');
+    expect(evaluatePolicy(policy, { tool: 't' }).effect).toBe('allow');
+  });
+
+  test('should match time windows spanning midnight', () => {
+    const policy: PolicyDocument = { rules: [{ effect: 'deny', time: { after: '22:00', before: '06:00' } }] };
+    const effect = (at: string) => evaluatePolicy(policy, { tool: 't' }, new Date(at)).effect;
+
+    expect(effect('2024-01-01T23:30:00Z')).toBe('deny');
+    expect(effect('2024-01-02T05:59:00Z')).toBe('deny');
+    expect(effect('2024-01-02T06:00:00Z')).toBe('allow');
+    expect(effect('2024-01-01T21:59:00Z')).toBe('allow');
+    expect(effect('2024-01-01T12:00:00Z')).toBe('allow');
+  });
+
+  test('should read days and times in the rule time zone', () => {
+    const weekend: PolicyDocument = { rules: [{ effect: 'deny', time: { days: ['sat', 'sun'], timezone: 'America/New_York' } }] };
+    const office: PolicyDocument = { rules: [{ effect: 'allow', time: { after: '09:00', before: '17:00', timezone: 'Asia/Tokyo' } }], default: 'deny' };
+
+    // Monday 03:00 UTC is still Sunday evening in New York
+    expect(evaluatePolicy(weekend, { tool: 't' }, new Date('2024-01-01T03:00:00Z')).effect).toBe('deny');
+    expect(evaluatePolicy(weekend, { tool: 't' }, new Date('2024-01-01T12:00:00Z')).effect).toBe('allow');
+    // 01:00 UTC is 10:00 in Tokyo
+    expect(evaluatePolicy(office, { tool: 't' }, new Date('2024-01-01T01:00:00Z')).effect).toBe('allow');
+    expect(evaluatePolicy(office, { tool: 't' }, new Date('2024-01-01T10:00:00Z')).effect).toBe('deny');
+  });
+});
+
+describe('parsePolicy', () => {
+  test('should accept a valid document', () => {
+    const value = { default: 'deny', rules: [{ effect: 'allow', tools: 'get_*', time: { after: '09:00', timezone: 'Europe/Berlin' } }] };
+    expect(parsePolicy(value, 'inline')).toEqual(value);
+  });
+
+  test('should reject typos and invalid values, naming the source', () => {
+    const invalid = (rule: Record<string, unknown>) => () => parsePolicy({ rules: [rule] }, 'policy.yaml');
+
+    expect(invalid({ effect: 'deny', tool: 'x' })).toThrow(/^Invalid policy in policy\.yaml: .*tool/);
+    expect(invalid({ effect: 'maybe' })).toThrow(/rules\.0\.effect/);
+    expect(invalid({ effect: 'deny', time: { after: '25:00' } })).toThrow('Expected a time as HH:MM');
+    expect(invalid({ effect: 'deny', time: { timezone: 'Mars/Olympus' } })).toThrow('Unknown time zone');
+    expect(invalid({ effect: 'deny', input: [{ field: 'a', matches: '(' }] })).toThrow('Invalid regular expression');
+    expect(() => parsePolicy({ default: 'allow' }, 'inline')).toThrow(/rules/);
+  });
+});
+
+describe('loadPolicyFile', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'policy-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should read YAML and JSON files', () => {
+    writeFileSync(join(dir, 'policy.yaml'), 'default: deny\nrules:\n  - { effect: allow, tools: ping }\n');
+    writeFileSync(join(dir, 'policy.json'), JSON.stringify({ rules: [{ effect: 'deny', tools: 'rm' }] }));
+
+    expect(loadPolicyFile(join(dir, 'policy.yaml'))).toEqual({ default: 'deny', rules: [{ effect: 'allow', tools: 'ping' }] });
+    expect(loadPolicyFile(join(dir, 'policy.json'))).toEqual({ rules: [{ effect: 'deny', tools: 'rm' }] });
+  });
+
+  test('should report syntax errors with the file path', () => {
+    const file = join(dir, 'policy.yaml');
+    writeFileSync(file, 'rules: [ { effect: deny\n');
+
+    expect(() => loadPolicyFile(file)).toThrow(`Invalid policy in ${file}`);
+  });
+});
+
+describe('policy enforcement', () => {
+  test('should audit every decision and ask before confirm calls', async () => {
+    const records: PolicyAuditRecord[] = [];
+    const mcp = createMCPServer({
+      name: 'test',
+      logging: { level: 'fatal' },
+      policy: {
+        rules: [
+          { id: 'seed', effect: 'deny', tools: 'delete_*', input: [{ field: 'id', lt: 100 }] },
+          { effect: 'confirm', tools: 'delete_*' },
+        ],
+      },
+      policyAudit: (record) => {
+        records.push(record);
+      },
+    });
+    mcp.registerTool(defineTool({
+      name: 'delete_user',
+      input: z.object({ id: z.number() }),
+      handler: async ({ input }) => ({ deleted: input.id }),
+    }));
+
+    const client = new Client({ name: 'stub', version: '1.0.0' }, { capabilities: { elicitation: {} } });
+    let confirm = true;
+    client.setRequestHandler(ElicitRequestSchema, async () => ({ action: 'accept', content: { confirm } }));
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await mcp.server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const denied = await client.callTool({ name: 'delete_user', arguments: { id: 5 } });
+    const confirmed = await client.callTool({ name: 'delete_user', arguments: { id: 500 } });
+    confirm = false;
+    const refused = await client.callTool({ name: 'delete_user', arguments: { id: 501 } });
+    await client.close();
+
+    expect(denied.isError).toBe(true);
+    expect(confirmed.structuredContent).toEqual({ deleted: 500 });
+    expect(refused.isError).toBe(true);
+    expect(records).toEqual([
+      expect.objectContaining({ tool: 'delete_user', effect: 'deny', rule: 'seed', allowed: false }),
+      expect.objectContaining({ effect: 'confirm', rule: 'rules[1]', confirmed: true, allowed: true }),
+      expect.objectContaining({ effect: 'confirm', rule: 'rules[1]', confirmed: false, allowed: false }),
+    ]);
+  });
+});
@@ -0,0 +1,76 @@
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { definePrompt, toPromptMessages } from '../prompt.js';
+import { createMCPServer } from '../server.js';
+import { connectClient } from './helpers.js';
+
+describe('toPromptMessages', () => {
+  test('should wrap strings as text and encode binary data as base64', () => {
+    expect(toPromptMessages({
+      description: 'Review',
+      messages: [
+        { role: 'user', content: 'Look at this' },
+        { role: 'user', content: { type: 'image', mimeType: 'image/png', data: new Uint8Array([1, 2, 3]) } },
+        { role: 'assistant', content: { type: 'resource', resource: { uri: 'file:///a.bin', blob: new Uint8Array([255]) } } },
+      ],
+    })).toEqual({
+      description: 'Review',
+      messages: [
+        { role: 'user', content: { type: 'text', text: 'Look at this' } },
+        { role: 'user', content: { type: 'image', mimeType: 'image/png', data: 'AQID' } },
+        { role: 'assistant', content: { type: 'resource', resource: { uri: 'file:///a.bin', mimeType: undefined, blob: '/w==' } } },
+      ],
+    });
+  });
+});
+
+describe('prompts', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    const mcp = createMCPServer({ name: 'test', logging: { level: 'fatal' } });
+    mcp.registerPrompt(definePrompt({
+      name: 'review',
+      description: 'Review a file',
+      args: z.object({
+        path: z.string().describe('File to review'),
+        tone: z.enum(['gentle', 'strict']).optional(),
+      }),
+      handler: async ({ args }) => [{ role: 'user', content: `Review ${args.path} (${args.tone || 'gentle'})` }],
+    }));
+    client = await connectClient(mcp);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  test('should list prompts with arguments derived from the schema', async () => {
+    expect((await client.listPrompts()).prompts).toEqual([{
+      name: 'review',
+      description: 'Review a file',
+      arguments: [
+        { name: 'path', description: 'File to review', required: true },
+        { name: 'tone', required: false },
+      ],
+    }]);
+  });
+
+  test('should render messages from validated arguments', async () => {
+    const result = await client.getPrompt({ name: 'review', arguments: { path: 'a.ts', tone: 'strict' } });
+
+    expect(result.messages).toEqual([{ role: 'user', content: { type: 'text', text: 'Review a.ts (strict)' } }]);
+  });
+
+  test('should reject invalid arguments and unknown prompts', async () => {
+    await expect(client.getPrompt({ name: 'review', arguments: { tone: 'harsh' } })).rejects.toMatchObject({
+      code: ErrorCode.InvalidParams,
+      message: expect.stringContaining('Invalid arguments for prompt "review"'),
+    });
+    await expect(client.getPrompt({ name: 'summarize' })).rejects.toMatchObject({
+      code: ErrorCode.InvalidParams,
+      message: expect.stringContaining('Prompt "summarize" not found'),
+    });
+  });
+});
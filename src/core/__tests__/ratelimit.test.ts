@@ -0,0 +1,219 @@
+import {
+  createMemoryRateLimitStore,
+  parseTimeWindow,
+  QuotaCounter,
+  RateLimiter,
+  ToolRateLimiter,
+} from '../ratelimit.js';
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: new Date('2024-01-31T23:30:00Z') });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('RateLimiter', () => {
+  test('should allow max requests per sliding window', async () => {
+    const limiter = new RateLimiter({ max: 2, timeWindow: '1s' });
+
+    expect(await limiter.consume('a')).toMatchObject({ allowed: true, limit: 2, remaining: 1, retryAfterMs: 0 });
+    jest.advanceTimersByTime(400);
+    expect(await limiter.consume('a')).toMatchObject({ allowed: true, remaining: 0, resetMs: 600 });
+    expect(await limiter.consume('a')).toMatchObject({ allowed: false, remaining: 0, retryAfterMs: 600 });
+    expect((await limiter.consume('b')).allowed).toBe(true);
+
+    // The first hit leaves the window, the second is still in it
+    jest.advanceTimersByTime(600);
+    expect(await limiter.consume('a')).toMatchObject({ allowed: true, remaining: 0 });
+    expect((await limiter.consume('a')).allowed).toBe(false);
+  });
+
+  test('should allow bursts up to the bucket capacity and refill at max per window', async () => {
+    const limiter = new RateLimiter({ max: 1, timeWindow: '1s', algorithm: 'token-bucket', burst: 3 });
+
+    for (const remaining of [2, 1, 0]) {
+      expect(await limiter.consume('a')).toMatchObject({ allowed: true, limit: 3, remaining });
+    }
+    expect(await limiter.consume('a')).toMatchObject({ allowed: false, retryAfterMs: 1000, resetMs: 3000 });
+
+    jest.advanceTimersByTime(500);
+    expect(await limiter.consume('a')).toMatchObject({ allowed: false, retryAfterMs: 500 });
+
+    jest.advanceTimersByTime(500);
+    expect(await limiter.consume('a')).toMatchObject({ allowed: true, remaining: 0 });
+
+    // A long pause refills the bucket, but never beyond its capacity
+    jest.advanceTimersByTime(60 * 1000);
+    expect(await limiter.consume('a')).toMatchObject({ allowed: true, remaining: 2 });
+  });
+
+  test('should give back refunded requests', async () => {
+    const sliding = new RateLimiter({ max: 1, timeWindow: '1m' });
+    const bucket = new RateLimiter({ max: 1, timeWindow: '1m', algorithm: 'token-bucket' });
+
+    for (const limiter of [sliding, bucket]) {
+      const counted = await limiter.consume('a');
+      const refused = await limiter.consume('a');
+      expect(refused.allowed).toBe(false);
+
+      // Refunding a refused request changes nothing
+      await limiter.refund('a', refused);
+      expect((await limiter.consume('a')).allowed).toBe(false);
+
+      await limiter.refund('a', counted);
+      expect((await limiter.consume('a')).allowed).toBe(true);
+    }
+  });
+
+  test('should only refund the request it is given in a sliding window', async () => {
+    const limiter = new RateLimiter({ max: 2, timeWindow: '1m' });
+
+    const first = await limiter.consume('a');
+    jest.advanceTimersByTime(10);
+    await limiter.consume('a');
+    await limiter.refund('a', first);
+    await limiter.refund('a', first);
+
+    expect(await limiter.consume('a')).toMatchObject({ allowed: true, remaining: 0 });
+    expect((await limiter.consume('a')).allowed).toBe(false);
+  });
+
+  test('should forget a key on reset', async () => {
+    const limiter = new RateLimiter({ max: 1, timeWindow: 60000 });
+
+    await limiter.consume('a');
+    await limiter.reset('a');
+
+    expect((await limiter.consume('a')).allowed).toBe(true);
+  });
+});
+
+describe('createMemoryRateLimitStore', () => {
+  test('should evict the least recently used keys beyond maxKeys', async () => {
+    const store = createMemoryRateLimitStore({ maxKeys: 2 });
+    const read = (key: string) => store.update(key, 60000, (record) => record || {});
+
+    await store.update('a', 60000, () => ({ count: 1 }));
+    await store.update('b', 60000, () => ({ count: 2 }));
+    await read('a');
+    await store.update('c', 60000, () => ({ count: 3 }));
+
+    expect(await read('a')).toEqual({ count: 1 });
+    expect(await read('c')).toEqual({ count: 3 });
+    expect(await read('b')).toEqual({});
+  });
+
+  test('should read expired records as missing', async () => {
+    const store = createMemoryRateLimitStore();
+    const seen: unknown[] = [];
+    const read = (key: string) => store.update(key, 1000, (record) => {
+      seen.push(record);
+      return record || { count: 0 };
+    });
+
+    await store.update('a', 1000, () => ({ count: 1 }));
+    jest.advanceTimersByTime(999);
+    await read('a');
+    jest.advanceTimersByTime(1000);
+    await read('a');
+
+    expect(seen).toEqual([{ count: 1 }, undefined]);
+  });
+});
+
+describe('QuotaCounter', () => {
+  test('should reset daily quotas at UTC midnight', async () => {
+    const quota = new QuotaCounter('daily', 2, createMemoryRateLimitStore());
+
+    expect(await quota.consume('a')).toEqual({
+      allowed: true,
+      limit: 2,
+      used: 1,
+      remaining: 1,
+      resetAt: Date.parse('2024-02-01T00:00:00Z'),
+    });
+    expect((await quota.consume('a')).allowed).toBe(true);
+    expect(await quota.consume('a')).toMatchObject({ allowed: false, used: 2, remaining: 0 });
+
+    jest.setSystemTime(new Date('2024-02-01T00:00:01Z'));
+    expect(await quota.consume('a')).toMatchObject({
+      allowed: true,
+      used: 1,
+      resetAt: Date.parse('2024-02-02T00:00:00Z'),
+    });
+  });
+
+  test('should reset monthly quotas on the first of the month', async () => {
+    const quota = new QuotaCounter('monthly', 1, createMemoryRateLimitStore());
+
+    expect(await quota.consume('a')).toMatchObject({ allowed: true, resetAt: Date.parse('2024-02-01T00:00:00Z') });
+
+    jest.setSystemTime(new Date('2024-01-31T23:59:59Z'));
+    expect((await quota.consume('a')).allowed).toBe(false);
+
+    jest.setSystemTime(new Date('2024-02-01T00:00:00Z'));
+    expect(await quota.consume('a')).toMatchObject({ allowed: true, resetAt: Date.parse('2024-03-01T00:00:00Z') });
+  });
+
+  test('should give back a call on refund', async () => {
+    const quota = new QuotaCounter('daily', 1, createMemoryRateLimitStore());
+
+    await quota.consume('a');
+    await quota.refund('a');
+
+    expect(await quota.consume('a')).toMatchObject({ allowed: true, used: 1 });
+  });
+});
+
+describe('ToolRateLimiter', () => {
+  test('should require timeWindow together with max', () => {
+    expect(() => new ToolRateLimiter({ max: 1 }, createMemoryRateLimitStore()))
+      .toThrow('Tool rate limit requires timeWindow together with max');
+  });
+
+  test('should report quota usage and refuse calls over the rate limit', async () => {
+    const limiter = new ToolRateLimiter({ max: 1, timeWindow: '1m', daily: 10 }, createMemoryRateLimitStore());
+
+    expect(await limiter.consume('user:a')).toEqual({
+      allowed: true,
+      quota: { daily: { limit: 10, used: 1, remaining: 9, resetAt: Date.parse('2024-02-01T00:00:00Z') } },
+    });
+    expect(await limiter.consume('user:a')).toEqual({
+      allowed: false,
+      reason: 'rate limit of 1 calls per 1m reached',
+      retryAfterMs: 60000,
+    });
+    expect((await limiter.consume('user:b')).allowed).toBe(true);
+  });
+
+  test('should give a call refused by a quota back to the rate limit and earlier quotas', async () => {
+    const store = createMemoryRateLimitStore();
+    const limiter = new ToolRateLimiter({ max: 2, timeWindow: '1h', daily: 5, monthly: 1 }, store);
+
+    expect((await limiter.consume('user:a')).allowed).toBe(true);
+    expect(await limiter.consume('user:a')).toEqual({
+      allowed: false,
+      reason: 'monthly quota of 1 calls used up',
+      retryAfterMs: 30 * 60 * 1000,
+    });
+
+    // The refused call counts neither against the daily quota nor the rate limit
+    expect(await new QuotaCounter('daily', 5, store).consume('user:a')).toMatchObject({ used: 2 });
+    jest.setSystemTime(new Date('2024-02-01T00:00:00Z'));
+    expect((await limiter.consume('user:a')).allowed).toBe(true);
+    expect(await limiter.consume('user:a')).toMatchObject({ allowed: false, reason: 'rate limit of 2 calls per 1h reached' });
+  });
+});
+
+describe('parseTimeWindow', () => {
+  test('should parse seconds, minutes, hours and days', () => {
+    expect(['30s', '5m', '2h', '1d'].map(parseTimeWindow)).toEqual([30000, 300000, 7200000, 86400000]);
+  });
+
+  test('should reject other formats', () => {
+    expect(() => parseTimeWindow('1w')).toThrow('Invalid time window format: 1w');
+    expect(() => parseTimeWindow('m')).toThrow('Invalid time window format: m');
+  });
+});
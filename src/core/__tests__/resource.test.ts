@@ -0,0 +1,105 @@
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createMCPServer } from '../server.js';
+import { defineResource, matchResource } from '../resource.js';
+import { connectClient } from './helpers.js';
+
+describe('matchResource', () => {
+  const resources = [
+    defineResource({ name: 'table', uri: 'db://tables/{name}', handler: async () => '' }),
+    defineResource({ name: 'users', uri: 'db://tables/users', handler: async () => '' }),
+  ];
+
+  test('should prefer static URIs over templates and extract template variables', () => {
+    expect(matchResource(resources, 'db://tables/users')).toEqual({ resource: resources[1], variables: {} });
+    expect(matchResource(resources, 'db://tables/orders')).toEqual({ resource: resources[0], variables: { name: 'orders' } });
+    expect(matchResource(resources, 'db://views/orders')).toBeUndefined();
+  });
+});
+
+describe('resources', () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    const mcp = createMCPServer({ name: 'test', logging: { level: 'fatal' } });
+    mcp.registerResource(defineResource({
+      name: 'config',
+      uri: 'config://app',
+      mimeType: 'application/json',
+      handler: async () => JSON.stringify({ debug: true }),
+    }));
+    mcp.registerResource(defineResource({
+      name: 'table',
+      uri: 'db://tables/{name}',
+      description: 'Rows of a table',
+      mimeType: 'text/csv',
+      handler: async ({ variables }) => `rows of ${variables.name}`,
+      list: async () => [{ uri: 'db://tables/users', name: 'users' }],
+    }));
+    mcp.registerResource(defineResource({
+      name: 'logo',
+      uri: 'assets://logo.png',
+      mimeType: 'image/png',
+      handler: async () => new Uint8Array([1, 2, 3]),
+    }));
+    client = await connectClient(mcp);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  test('should list static resources, listed template entries and templates', async () => {
+    expect((await client.listResources()).resources).toEqual([
+      { uri: 'config://app', name: 'config', mimeType: 'application/json' },
+      { uri: 'db://tables/users', name: 'users', mimeType: 'text/csv' },
+      { uri: 'assets://logo.png', name: 'logo', mimeType: 'image/png' },
+    ]);
+    expect((await client.listResourceTemplates()).resourceTemplates).toEqual([
+      { uriTemplate: 'db://tables/{name}', name: 'table', description: 'Rows of a table', mimeType: 'text/csv' },
+    ]);
+  });
+
+  test('should read text, templated and binary resources', async () => {
+    expect((await client.readResource({ uri: 'config://app' })).contents).toEqual([
+      { uri: 'config://app', mimeType: 'application/json', text: '{"debug":true}' },
+    ]);
+    expect((await client.readResource({ uri: 'db://tables/orders' })).contents).toEqual([
+      { uri: 'db://tables/orders', mimeType: 'text/csv', text: 'rows of orders' },
+    ]);
+    expect((await client.readResource({ uri: 'assets://logo.png' })).contents).toEqual([
+      { uri: 'assets://logo.png', mimeType: 'image/png', blob: 'AQID' },
+    ]);
+  });
+
+  test('should answer unknown URIs with a resource not found error', async () => {
+    await expect(client.readResource({ uri: 'config://other' })).rejects.toMatchObject({
+      code: -32002,
+      message: expect.stringContaining('Resource "config://other" not found'),
+      data: { uri: 'config://other' },
+    });
+  });
+});
+
+describe('resource subscriptions', () => {
+  test('should notify only sessions subscribed to the updated resource', async () => {
+    const mcp = createMCPServer({ name: 'test', logging: { level: 'fatal' } });
+    mcp.registerResource(defineResource({ name: 'config', uri: 'config://app', handler: async () => '{}' }));
+    const client = await connectClient(mcp);
+    const updated: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+      updated.push(notification.params.uri);
+    });
+
+    await client.subscribeResource({ uri: 'config://app' });
+    await mcp.notifyResourceUpdated('config://app');
+    await mcp.notifyResourceUpdated('config://other');
+    await client.unsubscribeResource({ uri: 'config://app' });
+    await mcp.notifyResourceUpdated('config://app');
+    // Round trip so notifications sent before it have been delivered
+    await client.ping();
+    await client.close();
+
+    expect(updated).toEqual(['config://app']);
+  });
+});
@@ -0,0 +1,87 @@
+import { jsonSchemaToZod } from '../schema.js';
+import { zodToJsonSchema } from '../tool.js';
+import type { JSONSchema } from '../../types.js';
+
+describe('jsonSchemaToZod', () => {
+  test('should keep undeclared properties unless additionalProperties is false', () => {
+    const open = jsonSchemaToZod({
+      type: 'object',
+      properties: { meta: { type: 'object' } },
+    });
+    const closed = jsonSchemaToZod({
+      type: 'object',
+      properties: { id: { type: 'integer' } },
+      additionalProperties: false,
+    });
+
+    expect(open.parse({ meta: { a: 1 }, extra: 2 })).toEqual({ meta: { a: 1 }, extra: 2 });
+    expect(closed.safeParse({ id: 1, extra: 2 }).success).toBe(false);
+  });
+
+  test('should validate undeclared properties against an additionalProperties schema', () => {
+    const schema = jsonSchemaToZod({
+      type: 'object',
+      properties: { id: { type: 'integer' } },
+      additionalProperties: { type: 'string' },
+    });
+
+    expect(schema.parse({ id: 1, note: 'x' })).toEqual({ id: 1, note: 'x' });
+    expect(schema.safeParse({ id: 1, note: 2 }).success).toBe(false);
+  });
+
+  test('should treat objects without properties as records', () => {
+    const any = jsonSchemaToZod({ type: 'object' });
+    const counts = jsonSchemaToZod({ type: 'object', additionalProperties: { type: 'number' }, maxProperties: 1 });
+
+    expect(any.parse({ a: 1, b: { c: [2] } })).toEqual({ a: 1, b: { c: [2] } });
+    expect(any.safeParse([1]).success).toBe(false);
+    expect(counts.parse({ a: 1 })).toEqual({ a: 1 });
+    expect(counts.safeParse({ a: 'x' }).success).toBe(false);
+    expect(counts.safeParse({ a: 1, b: 2 }).success).toBe(false);
+  });
+
+  test('should apply defaults and require listed properties', () => {
+    const schema = jsonSchemaToZod({
+      type: 'object',
+      properties: {
+        query: { type: 'string', minLength: 1 },
+        limit: { type: 'integer', minimum: 1, default: 10 },
+      },
+      required: ['query'],
+    });
+
+    expect(schema.parse({ query: 'a' })).toEqual({ query: 'a', limit: 10 });
+    expect(schema.safeParse({}).success).toBe(false);
+    expect(schema.safeParse({ query: 'a', limit: 1.5 }).success).toBe(false);
+  });
+
+  test('should convert unions, nullable types and recursive references', () => {
+    const schema = jsonSchemaToZod({
+      $defs: {
+        node: {
+          type: 'object',
+          properties: { value: { type: ['string', 'null'] }, next: { $ref: '#/$defs/node' } },
+          required: ['value'],
+        },
+      },
+      anyOf: [{ $ref: '#/$defs/node' }, { type: 'integer' }],
+    });
+
+    expect(schema.parse({ value: 'a', next: { value: null } })).toEqual({ value: 'a', next: { value: null } });
+    expect(schema.parse(3)).toBe(3);
+    expect(schema.safeParse({ value: 'a', next: { value: 1 } }).success).toBe(false);
+  });
+
+  test('should round-trip through zodToJsonSchema', () => {
+    const source: JSONSchema = {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Display name' },
+        tags: { type: 'array', items: { type: 'string' }, minItems: 1 },
+      },
+      required: ['name'],
+    };
+
+    expect(zodToJsonSchema(jsonSchemaToZod(source))).toEqual(source);
+  });
+});
@@ -0,0 +1,310 @@
+import { createServer } from 'net';
+import WebSocket from 'ws';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { ErrorCode, ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { createMCPServer } from '../server.js';
+import { defineTool } from '../tool.js';
+import type { AuthIdentity } from '../../types.js';
+import { connectClient } from './helpers.js';
+
+/**
+ * Callers known to the test servers, by bearer token
+ */
+const CALLERS: Record<string, AuthIdentity> = {
+  alice: { principal: 'alice', scopes: ['read'] },
+  root: { principal: 'root', scopes: ['read', 'admin'] },
+};
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+};
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = createServer();
+    probe.once('error', reject);
+    probe.listen(0, '127.0.0.1', () => {
+      const address = probe.address();
+      probe.close(() => resolve(typeof address === 'object' && address ? address.port : 0));
+    });
+  });
+}
+
+function bearer(token: string): Record<string, string> {
+  return { authorization: `Bearer ${token}` };
+}
+
+describe.each(['express', 'fastify'] as const)('createMCPServer over HTTP (%s)', (framework) => {
+  let mcp: ReturnType<typeof createMCPServer>;
+  let base: string;
+  const clients: Client[] = [];
+
+  beforeAll(async () => {
+    const port = await freePort();
+    base = `http://127.0.0.1:${port}`;
+    mcp = createMCPServer({
+      name: 'test',
+      framework,
+      host: '127.0.0.1',
+      port,
+      transport: 'both',
+      websocket: true,
+      logging: { level: 'fatal' },
+      auth: { type: 'bearer', validate: async (token) => CALLERS[token] || false },
+    });
+    mcp.registerTool(defineTool({
+      name: 'whoami',
+      input: z.object({}),
+      handler: async ({ ctx }) => ({ principal: ctx.auth?.principal }),
+    }));
+    mcp.registerTool(defineTool({
+      name: 'drop_table',
+      input: z.object({}),
+      requiredScopes: ['admin'],
+      handler: async () => ({ dropped: true }),
+    }));
+    await mcp.start();
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((client) => client.close()));
+  });
+
+  afterAll(async () => {
+    await mcp.stop();
+  });
+
+  async function connect(kind: 'streamable' | 'sse', token: string): Promise<Client> {
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    const transport = kind === 'streamable'
+      ? new StreamableHTTPClientTransport(new URL(`${base}/mcp`), { requestInit: { headers: bearer(token) } })
+      : new SSEClientTransport(new URL(`${base}/sse`), { requestInit: { headers: bearer(token) } });
+    await client.connect(transport);
+    clients.push(client);
+    return client;
+  }
+
+  /**
+   * Open a WebSocket, resolving to the upgrade status and the session ID the server assigned
+   */
+  function openSocket(token: string, query = ''): Promise<{ status: number; sessionId?: string; socket?: WebSocket }> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(`${base.replace('http', 'ws')}/ws${query}`, 'mcp', { headers: bearer(token) });
+      let sessionId: string | undefined;
+      socket.on('upgrade', (res) => {
+        sessionId = res.headers['mcp-session-id'] as string;
+      });
+      socket.on('open', () => resolve({ status: 101, sessionId, socket }));
+      socket.on('unexpected-response', (req, res) => {
+        resolve({ status: res.statusCode || 0 });
+        req.destroy();
+      });
+      socket.on('error', reject);
+    });
+  }
+
+  function closeSocket(socket: WebSocket): Promise<void> {
+    return new Promise((resolve) => {
+      socket.once('close', () => resolve());
+      socket.close();
+    });
+  }
+
+  test('should serve Streamable HTTP and SSE clients', async () => {
+    for (const kind of ['streamable', 'sse'] as const) {
+      const client = await connect(kind, 'alice');
+      const result = await client.callTool({ name: 'whoami', arguments: {} });
+
+      expect(result.structuredContent).toEqual({ principal: 'alice' });
+    }
+  });
+
+  test('should serve WebSocket clients', async () => {
+    const { status, sessionId, socket } = await openSocket('alice');
+    expect(status).toBe(101);
+    expect(sessionId).toEqual(expect.any(String));
+
+    const response = await new Promise<{ result?: { serverInfo?: { name?: string } } }>((resolve) => {
+      socket!.once('message', (data) => resolve(JSON.parse(data.toString())));
+      socket!.send(JSON.stringify(INITIALIZE));
+    });
+    await closeSocket(socket!);
+
+    expect(response.result?.serverInfo?.name).toBe('test');
+  });
+
+  test('should reject requests without valid credentials', async () => {
+    const response = await fetch(`${base}/mcp`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', accept: 'application/json, text/event-stream', ...bearer('mallory') },
+      body: JSON.stringify(INITIALIZE),
+    });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toContain('error="invalid_token"');
+  });
+
+  test("should refuse another principal's Streamable HTTP session", async () => {
+    const headers = (token: string, sessionId?: string) => ({
+      'content-type': 'application/json',
+      accept: 'application/json, text/event-stream',
+      ...bearer(token),
+      ...(sessionId ? { 'mcp-session-id': sessionId } : {}),
+    });
+    const initialized = await fetch(`${base}/mcp`, { method: 'POST', headers: headers('alice'), body: JSON.stringify(INITIALIZE) });
+    const sessionId = initialized.headers.get('mcp-session-id')!;
+    await initialized.text();
+
+    const ping = JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'ping' });
+    const hijacked = await fetch(`${base}/mcp`, { method: 'POST', headers: headers('root', sessionId), body: ping });
+    const owned = await fetch(`${base}/mcp`, { method: 'POST', headers: headers('alice', sessionId), body: ping });
+    await Promise.all([hijacked.text(), owned.text()]);
+    await fetch(`${base}/mcp`, { method: 'DELETE', headers: headers('alice', sessionId) });
+
+    expect(sessionId).toEqual(expect.any(String));
+    expect(hijacked.status).toBe(403);
+    expect(owned.status).toBe(200);
+  });
+
+  test('should only let the owner resume a WebSocket session it issued', async () => {
+    const opened = await openSocket('alice');
+    await closeSocket(opened.socket!);
+
+    expect((await openSocket('root', `?sessionId=${opened.sessionId}`)).status).toBe(403);
+    expect((await openSocket('alice', '?sessionId=chosen-by-client')).status).toBe(404);
+
+    const resumed = await openSocket('alice', `?sessionId=${opened.sessionId}`);
+    expect(resumed).toMatchObject({ status: 101, sessionId: opened.sessionId });
+    await closeSocket(resumed.socket!);
+  });
+
+  test('should answer calls to tools hidden by scope as not found', async () => {
+    const alice = await connect('streamable', 'alice');
+    const root = await connect('streamable', 'root');
+
+    const listed = await alice.listTools();
+    expect(listed.tools.map((tool) => tool.name)).toEqual(['whoami']);
+
+    for (const name of ['drop_table', 'no_such_tool']) {
+      await expect(alice.callTool({ name, arguments: {} })).rejects.toMatchObject({
+        code: ErrorCode.InvalidParams,
+        message: expect.stringContaining(`Tool "${name}" not found`),
+      });
+    }
+
+    expect((await root.callTool({ name: 'drop_table', arguments: {} })).structuredContent).toEqual({ dropped: true });
+  });
+});
+
+describe.each(['express', 'fastify'] as const)('createMCPServer middleware errors (%s)', (framework) => {
+  test('should answer a throwing auth validator with a 500 instead of crashing', async () => {
+    const port = await freePort();
+    const mcp = createMCPServer({ name: 'test', framework, host: '127.0.0.1', port, logging: { level: 'fatal' } });
+    mcp.useAuth(async () => {
+      throw new Error('idp down');
+    });
+    await mcp.start();
+
+    try {
+      const response = await fetch(`http://127.0.0.1:${port}/mcp`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', accept: 'application/json, text/event-stream' },
+        body: JSON.stringify(INITIALIZE),
+      });
+
+      expect(response.status).toBe(500);
+      if (framework === 'express') {
+        expect(await response.json()).toEqual({
+          jsonrpc: '2.0',
+          error: { code: -32603, message: 'Internal server error' },
+          id: null,
+        });
+      } else {
+        await response.text();
+      }
+    } finally {
+      await mcp.stop();
+    }
+  });
+});
+
+describe('createMCPServer tool registry', () => {
+  test('should announce tools registered, disabled, enabled and unregistered at runtime', async () => {
+    const mcp = createMCPServer({ name: 'test', logging: { level: 'fatal' } });
+    const ping = defineTool({ name: 'ping', input: z.object({}), handler: async () => ({ pong: true }) });
+    mcp.registerTool(ping);
+    const client = await connectClient(mcp);
+    let changes = 0;
+    client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+      changes++;
+    });
+    const listed = async () => (await client.listTools()).tools.map((tool) => tool.name);
+
+    mcp.registerTool(defineTool({ name: 'echo', input: z.object({}), handler: async () => ({}) }));
+    expect(await listed()).toEqual(['ping', 'echo']);
+
+    mcp.disableTool('ping');
+    mcp.disableTool('ping');
+    expect(await listed()).toEqual(['echo']);
+    await expect(client.callTool({ name: 'ping', arguments: {} })).rejects.toMatchObject({
+      message: expect.stringContaining('Tool "ping" not found'),
+    });
+
+    mcp.enableTool('ping');
+    expect((await client.callTool({ name: 'ping', arguments: {} })).structuredContent).toEqual({ pong: true });
+
+    mcp.unregisterTool('echo');
+    expect(await listed()).toEqual(['ping']);
+    await client.close();
+
+    // Disabling an already disabled tool announces nothing
+    expect(changes).toBe(4);
+    expect(() => mcp.registerTool(ping)).toThrow('Tool with name "ping" already registered');
+    expect(() => mcp.disableTool('echo')).toThrow('Tool with name "echo" is not registered');
+  });
+});
+
+describe('createMCPServer structured tool output', () => {
+  test('should advertise object output schemas and return validated structured content', async () => {
+    const mcp = createMCPServer({ name: 'test', logging: { level: 'fatal' } });
+    mcp.registerTool(defineTool({
+      name: 'count',
+      input: z.object({ text: z.string() }),
+      output: z.object({ count: z.number() }),
+      handler: async ({ input }) => ({ count: input.text === 'broken' ? Number('x') : input.text.length }),
+    }));
+    mcp.registerTool(defineTool({
+      name: 'split',
+      input: z.object({ text: z.string() }),
+      output: z.array(z.string()),
+      handler: async ({ input }) => input.text.split(' '),
+    }));
+    const client = await connectClient(mcp);
+
+    const { tools } = await client.listTools();
+    const counted = await client.callTool({ name: 'count', arguments: { text: 'hello' } });
+    const split = await client.callTool({ name: 'split', arguments: { text: 'a b' } });
+    const broken = await client.callTool({ name: 'count', arguments: { text: 'broken' } });
+    await client.close();
+
+    expect(tools[0].outputSchema).toMatchObject({ type: 'object', properties: { count: { type: 'number' } } });
+    expect(tools[1].outputSchema).toBeUndefined();
+    expect(counted).toMatchObject({
+      structuredContent: { count: 5 },
+      content: [{ type: 'text', text: JSON.stringify({ count: 5 }, null, 2) }],
+    });
+    expect(split.structuredContent).toBeUndefined();
+    expect(split.content).toEqual([{ type: 'text', text: JSON.stringify(['a', 'b'], null, 2) }]);
+    expect(broken.isError).toBe(true);
+    expect(JSON.parse((broken.content as { text: string }[])[0].text)).toMatchObject({
+      error: 'Output validation failed',
+      issues: [expect.objectContaining({ path: 'count', expected: 'number' })],
+    });
+  });
+});
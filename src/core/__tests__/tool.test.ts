@@ -0,0 +1,301 @@
+import { z } from 'zod';
+import { fromJsonValue, toJsonValue, validateWithSchema, zodToJsonSchema } from '../tool.js';
+
+describe('zodToJsonSchema', () => {
+  test('should carry descriptions and defaults, and not require defaulted fields', () => {
+    const schema = z.object({
+      name: z.string().describe('Display name'),
+      limit: z.number().int().default(10),
+      tag: z.string().optional(),
+    }).describe('Search options');
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'object',
+      description: 'Search options',
+      properties: {
+        name: { type: 'string', description: 'Display name' },
+        limit: { type: 'integer', default: 10 },
+        tag: { type: 'string' },
+      },
+      required: ['name'],
+    });
+  });
+
+  test('should convert string formats, lengths and patterns', () => {
+    expect(zodToJsonSchema(z.string().email().min(3).max(50))).toEqual({
+      type: 'string',
+      format: 'email',
+      minLength: 3,
+      maxLength: 50,
+    });
+    expect(zodToJsonSchema(z.string().regex(/^a/).endsWith('z'))).toEqual({
+      type: 'string',
+      allOf: [{ pattern: '^a' }, { pattern: 'z$' }],
+    });
+  });
+
+  test('should convert number ranges', () => {
+    expect(zodToJsonSchema(z.number().int().min(1).lt(100).multipleOf(5))).toEqual({
+      type: 'integer',
+      minimum: 1,
+      exclusiveMaximum: 100,
+      multipleOf: 5,
+    });
+  });
+
+  test('should convert arrays, sets and tuples with their bounds', () => {
+    expect(zodToJsonSchema(z.array(z.string()).min(1).max(3))).toEqual({
+      type: 'array',
+      items: { type: 'string' },
+      minItems: 1,
+      maxItems: 3,
+    });
+    expect(zodToJsonSchema(z.set(z.number()))).toEqual({
+      type: 'array',
+      uniqueItems: true,
+      items: { type: 'number' },
+    });
+    expect(zodToJsonSchema(z.tuple([z.string(), z.number()]))).toEqual({
+      type: 'array',
+      prefixItems: [{ type: 'string' }, { type: 'number' }],
+      maxItems: 2,
+      minItems: 2,
+    });
+    expect(zodToJsonSchema(z.tuple([z.string()]).rest(z.boolean()))).toEqual({
+      type: 'array',
+      prefixItems: [{ type: 'string' }],
+      items: { type: 'boolean' },
+      minItems: 1,
+    });
+  });
+
+  test('should convert records and maps', () => {
+    expect(zodToJsonSchema(z.record(z.number()))).toEqual({
+      type: 'object',
+      additionalProperties: { type: 'number' },
+    });
+    expect(zodToJsonSchema(z.record(z.string().min(2), z.boolean()))).toEqual({
+      type: 'object',
+      additionalProperties: { type: 'boolean' },
+      propertyNames: { type: 'string', minLength: 2 },
+    });
+    expect(zodToJsonSchema(z.map(z.string(), z.number()))).toEqual({
+      type: 'array',
+      items: {
+        type: 'array',
+        prefixItems: [{ type: 'string' }, { type: 'number' }],
+        minItems: 2,
+        maxItems: 2,
+      },
+    });
+  });
+
+  test('should convert unions, discriminated unions and intersections', () => {
+    expect(zodToJsonSchema(z.union([z.string(), z.number()]))).toEqual({
+      anyOf: [{ type: 'string' }, { type: 'number' }],
+    });
+
+    const shape = z.discriminatedUnion('kind', [
+      z.object({ kind: z.literal('circle'), radius: z.number() }),
+      z.object({ kind: z.literal('square'), side: z.number() }),
+    ]);
+    expect(zodToJsonSchema(shape)).toEqual({
+      oneOf: [
+        {
+          type: 'object',
+          properties: { kind: { type: 'string', const: 'circle' }, radius: { type: 'number' } },
+          required: ['kind', 'radius'],
+        },
+        {
+          type: 'object',
+          properties: { kind: { type: 'string', const: 'square' }, side: { type: 'number' } },
+          required: ['kind', 'side'],
+        },
+      ],
+    });
+
+    expect(zodToJsonSchema(z.intersection(z.object({ a: z.string() }), z.object({ b: z.number() })))).toEqual({
+      allOf: [
+        { type: 'object', properties: { a: { type: 'string' } }, required: ['a'] },
+        { type: 'object', properties: { b: { type: 'number' } }, required: ['b'] },
+      ],
+    });
+  });
+
+  test('should convert enums, native enums and nullable values', () => {
+    enum Color { Red = 'red', Green = 'green' }
+    enum Level { Low, High }
+
+    expect(zodToJsonSchema(z.enum(['a', 'b']))).toEqual({ type: 'string', enum: ['a', 'b'] });
+    expect(zodToJsonSchema(z.nativeEnum(Color))).toEqual({ type: 'string', enum: ['red', 'green'] });
+    expect(zodToJsonSchema(z.nativeEnum(Level))).toEqual({ type: 'number', enum: [0, 1] });
+    expect(zodToJsonSchema(z.enum(['a', 'b']).nullable())).toEqual({
+      type: ['string', 'null'],
+      enum: ['a', 'b', null],
+    });
+    expect(zodToJsonSchema(z.union([z.string(), z.number()]).nullable())).toEqual({
+      anyOf: [{ type: 'string' }, { type: 'number' }, { type: 'null' }],
+    });
+  });
+
+  test('should advertise dates and bigints by their JSON form', () => {
+    expect(zodToJsonSchema(z.date())).toEqual({ type: 'string', format: 'date-time' });
+    expect(zodToJsonSchema(z.bigint())).toEqual({ type: 'integer', format: 'int64' });
+    expect(zodToJsonSchema(z.date().default(new Date('2024-01-01T00:00:00Z')))).toEqual({
+      type: 'string',
+      format: 'date-time',
+      default: '2024-01-01T00:00:00.000Z',
+    });
+  });
+
+  test('should describe the input of refinements, transforms and pipelines', () => {
+    expect(zodToJsonSchema(z.string().refine((value) => value !== 'x'))).toEqual({ type: 'string' });
+    expect(zodToJsonSchema(z.string().transform(Number))).toEqual({ type: 'string' });
+    expect(zodToJsonSchema(z.string().pipe(z.coerce.number()))).toEqual({ type: 'string' });
+    expect(zodToJsonSchema(z.string().brand<'Id'>())).toEqual({ type: 'string' });
+  });
+
+  test('should mark strict objects and carry catchalls', () => {
+    expect(zodToJsonSchema(z.object({ a: z.string() }).strict())).toEqual({
+      type: 'object',
+      properties: { a: { type: 'string' } },
+      required: ['a'],
+      additionalProperties: false,
+    });
+    expect(zodToJsonSchema(z.object({}).catchall(z.number()))).toEqual({
+      type: 'object',
+      properties: {},
+      additionalProperties: { type: 'number' },
+    });
+  });
+
+  test('should hoist recursive schemas into $defs', () => {
+    interface Category { name: string; children: Category[] }
+    const category: z.ZodType<Category> = z.lazy(() => z.object({
+      name: z.string(),
+      children: z.array(category),
+    }));
+
+    expect(zodToJsonSchema(z.object({ root: category }))).toEqual({
+      type: 'object',
+      properties: { root: { $ref: '#/$defs/Lazy1' } },
+      required: ['root'],
+      $defs: {
+        Lazy1: {
+          type: 'object',
+          properties: { name: { type: 'string' }, children: { type: 'array', items: { $ref: '#/$defs/Lazy1' } } },
+          required: ['name', 'children'],
+        },
+      },
+    });
+
+    expect(zodToJsonSchema(category)).toEqual({
+      type: 'object',
+      properties: { name: { type: 'string' }, children: { type: 'array', items: { $ref: '#' } } },
+      required: ['name', 'children'],
+    });
+  });
+});
+
+describe('fromJsonValue', () => {
+  const validate = <T>(schema: z.ZodType<T>, value: unknown) =>
+    validateWithSchema(schema, fromJsonValue(schema, value));
+
+  test('should accept dates and bigints in their advertised JSON form', () => {
+    const schema = z.object({ at: z.date(), id: z.bigint(), big: z.bigint().optional() });
+    const result = validate(schema, { at: '2024-01-01T00:00:00Z', id: 42, big: '9007199254740993' });
+
+    expect(result).toEqual({
+      success: true,
+      data: { at: new Date('2024-01-01T00:00:00Z'), id: 42n, big: 9007199254740993n },
+    });
+  });
+
+  test('should leave values that cannot be converted for validation to reject', () => {
+    expect(validate(z.date(), 'not a date').success).toBe(false);
+    expect(validate(z.bigint(), 1.5).success).toBe(false);
+  });
+
+  test('should accept sets and maps as arrays', () => {
+    const schema = z.object({
+      tags: z.set(z.string()),
+      counts: z.map(z.string(), z.date()),
+    });
+    const result = validate(schema, { tags: ['a', 'b'], counts: [['x', '2024-01-01T00:00:00Z']] });
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        tags: new Set(['a', 'b']),
+        counts: new Map([['x', new Date('2024-01-01T00:00:00Z')]]),
+      },
+    });
+  });
+
+  test('should convert inside arrays, records, unions and wrappers', () => {
+    const schema = z.object({
+      dates: z.array(z.date()).default([]),
+      byName: z.record(z.date().nullable()),
+      when: z.union([z.literal('never'), z.date()]),
+    });
+    const result = validate(schema, {
+      dates: ['2024-01-01T00:00:00Z'],
+      byName: { a: '2024-02-01T00:00:00Z', b: null },
+      when: '2024-03-01T00:00:00Z',
+    });
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        dates: [new Date('2024-01-01T00:00:00Z')],
+        byName: { a: new Date('2024-02-01T00:00:00Z'), b: null },
+        when: new Date('2024-03-01T00:00:00Z'),
+      },
+    });
+    expect(validate(schema, { byName: {}, when: 'never' })).toEqual({
+      success: true,
+      data: { dates: [], byName: {}, when: 'never' },
+    });
+  });
+});
+
+describe('toJsonValue', () => {
+  test('should produce the advertised JSON form of dates, bigints, sets and maps', () => {
+    const output = {
+      at: new Date('2024-01-01T00:00:00Z'),
+      id: 42n,
+      big: 9007199254740993n,
+      tags: new Set(['a', 'b']),
+      counts: new Map([['x', new Date('2024-02-01T00:00:00Z')]]),
+    };
+
+    expect(toJsonValue(output)).toEqual({
+      at: '2024-01-01T00:00:00.000Z',
+      id: 42,
+      big: '9007199254740993',
+      tags: ['a', 'b'],
+      counts: [['x', '2024-02-01T00:00:00.000Z']],
+    });
+  });
+
+  test('should round-trip through fromJsonValue', () => {
+    const schema = z.object({
+      items: z.array(z.object({ id: z.bigint(), at: z.date().nullable() })),
+      byName: z.record(z.set(z.number())),
+    });
+    const output = schema.parse({
+      items: [{ id: 1n, at: new Date('2024-01-01T00:00:00Z') }, { id: 2n, at: null }],
+      byName: { a: new Set([1, 2]) },
+    });
+
+    const json = JSON.parse(JSON.stringify(toJsonValue(output)));
+    expect(validateWithSchema(schema, fromJsonValue(schema, json))).toEqual({ success: true, data: output });
+  });
+
+  test('should leave JSON values and class instances alone', () => {
+    const url = new URL('https://example.com');
+
+    expect(toJsonValue({ a: [1, 'x', null, true] })).toEqual({ a: [1, 'x', null, true] });
+    expect(toJsonValue({ url })).toEqual({ url });
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Request cancellation helpers for context clients
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import type { Knex } from 'knex';
+
+/**
+ * Create an HTTP client whose requests are aborted with the given signal
+ */
+export function bindHttpToSignal(http: AxiosInstance, signal: AbortSignal): AxiosInstance {
+  const bound = axios.create({ ...http.defaults, signal } as Parameters<typeof axios.create>[0]);
+  bound.interceptors.request = http.interceptors.request;
+  bound.interceptors.response = http.interceptors.response;
+  return bound;
+}
+
+/**
+ * Create a knex handle sharing the pool of `db` whose running queries are
+ * cancelled when the signal aborts (on dialects that support cancellation).
+ * Transactions started from the handle are not bound: knex builds their client
+ * from the dialect prototype, so callers must roll them back on abort.
+ */
+export function bindDbToSignal(db: Knex, signal: AbortSignal): Knex {
+  const bound = db.withUserParams({ ...db.userParams });
+  const client = bound.client as Knex.Client & {
+    query: (connection: unknown, obj: unknown) => Promise<unknown>;
+    cancelQuery: (connection: unknown) => Promise<unknown>;
+  };
+  const query = client.query.bind(client);
+
+  client.query = (connection: unknown, obj: unknown) => {
+    if (signal.aborted) {
+      return Promise.reject(signal.reason ?? new Error('Request aborted'));
+    }
+
+    const cancel = () => {
+      client.cancelQuery(connection).catch(() => {
+        // Dialect cannot cancel running queries; the result is discarded instead
+      });
+    };
+
+    signal.addEventListener('abort', cancel, { once: true });
+    return query(connection, obj).finally(() => signal.removeEventListener('abort', cancel));
+  };
+
+  return bound;
+}
@@ -0,0 +1,70 @@
+/**
+ * Argument completion utilities
+ */
+
+import { z } from 'zod';
+import type { CompleteResult } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Maximum number of completion values per response (per the MCP specification)
+ */
+const MAX_COMPLETIONS = 100;
+
+/**
+ * Collect the allowed values of an enum field in an object schema, if any
+ */
+export function enumValuesFor(schema: z.ZodType<unknown>, field: string): string[] | undefined {
+  if (!(schema instanceof z.ZodObject)) {
+    return undefined;
+  }
+
+  let fieldSchema = (schema.shape as Record<string, z.ZodTypeAny>)[field];
+
+  while (
+    fieldSchema instanceof z.ZodOptional ||
+    fieldSchema instanceof z.ZodNullable ||
+    fieldSchema instanceof z.ZodDefault
+  ) {
+    fieldSchema = fieldSchema._def.innerType;
+  }
+
+  if (fieldSchema instanceof z.ZodEnum) {
+    return [...fieldSchema.options] as string[];
+  }
+
+  if (fieldSchema instanceof z.ZodNativeEnum) {
+    const values = fieldSchema.enum as Record<string, string | number>;
+    // Skip the reverse mappings TypeScript generates for numeric members
+    return Object.values(values)
+      .filter((value): value is string => typeof value === 'string' && typeof values[value] !== 'number');
+  }
+
+  return undefined;
+}
+
+/**
+ * Rank candidates against the typed value (prefix matches before substring
+ * matches, case-insensitive) and truncate to the protocol limit
+ */
+export function rankCompletions(candidates: string[], value: string): CompleteResult['completion'] {
+  const needle = value.toLowerCase();
+  const prefixed: string[] = [];
+  const contained: string[] = [];
+
+  for (const candidate of new Set(candidates)) {
+    const haystack = candidate.toLowerCase();
+    if (haystack.startsWith(needle)) {
+      prefixed.push(candidate);
+    } else if (haystack.includes(needle)) {
+      contained.push(candidate);
+    }
+  }
+
+  const ranked = [...prefixed, ...contained];
+
+  return {
+    values: ranked.slice(0, MAX_COMPLETIONS),
+    total: ranked.length,
+    hasMore: ranked.length > MAX_COMPLETIONS,
+  };
+}
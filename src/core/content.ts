@@ -0,0 +1,98 @@
+/**
+ * Rich tool result builders
+ */
+
+import type { ToolContent, ToolContentResult } from '../types.js';
+
+/**
+ * Marks values produced by the builders so they can be told apart from plain tool output
+ */
+const CONTENT_BLOCK = Symbol('mcp-sdk-ts.contentBlock');
+const CONTENT_RESULT = Symbol('mcp-sdk-ts.contentResult');
+
+/**
+ * Encode binary data as base64, passing strings through as already encoded
+ */
+function toBase64(data: string | Uint8Array): string {
+  return typeof data === 'string' ? data : Buffer.from(data).toString('base64');
+}
+
+/**
+ * Attach the builder brand to a content block
+ */
+function block<T extends ToolContent>(value: T): T {
+  Object.defineProperty(value, CONTENT_BLOCK, { value: true });
+  return value;
+}
+
+/**
+ * Content builders for tool handlers returning more than a JSON value
+ */
+export const content = {
+  /** Plain text block */
+  text(text: string): ToolContent {
+    return block({ type: 'text', text });
+  },
+
+  /** Image block from binary data or a base64 string */
+  image(data: string | Uint8Array, mimeType: string): ToolContent {
+    return block({ type: 'image', data: toBase64(data), mimeType });
+  },
+
+  /** Audio block from binary data or a base64 string */
+  audio(data: string | Uint8Array, mimeType: string): ToolContent {
+    return block({ type: 'audio', data: toBase64(data), mimeType });
+  },
+
+  /** Embedded resource; strings are sent as text, binary data as a blob */
+  resource(uri: string, data: string | Uint8Array, mimeType?: string): ToolContent {
+    return block({
+      type: 'resource',
+      resource: typeof data === 'string'
+        ? { uri, mimeType, text: data }
+        : { uri, mimeType, blob: toBase64(data) },
+    });
+  },
+
+  /** Link to a resource the client can read separately */
+  resourceLink(uri: string, name: string, options: { description?: string; mimeType?: string } = {}): ToolContent {
+    return block({ type: 'resource_link', uri, name, ...options });
+  },
+
+  /**
+   * Combine content blocks with optional structured output. Only the
+   * structured part is validated against the tool's output schema.
+   */
+  result<TOutput>(blocks: ToolContent[], structured?: TOutput): ToolContentResult<TOutput> {
+    const value: ToolContentResult<TOutput> = { content: blocks, structured };
+    Object.defineProperty(value, CONTENT_RESULT, { value: true });
+    return value;
+  },
+};
+
+/**
+ * Normalize a handler return value built with `content` into a content result,
+ * or return undefined for plain output
+ */
+export function toContentResult(value: unknown): ToolContentResult<unknown> | undefined {
+  if (isBranded(value, CONTENT_RESULT)) {
+    return value as ToolContentResult<unknown>;
+  }
+
+  if (isBranded(value, CONTENT_BLOCK)) {
+    return { content: [value as ToolContent] };
+  }
+
+  if (Array.isArray(value) && value.length > 0 && value.every((item) => isBranded(item, CONTENT_BLOCK))) {
+    return { content: value as ToolContent[] };
+  }
+
+  return undefined;
+}
+
+/**
+ * Check whether a value carries a builder brand
+ */
+function isBranded(value: unknown, brand: symbol): boolean {
+  return typeof value === 'object' && value !== null && brand in value;
+}
@@ -0,0 +1,31 @@
+/**
+ * Database connection lifecycle
+ */
+
+import knex, { Knex } from 'knex';
+import type { DatabaseOptions } from '../types.js';
+
+/**
+ * Create a pooled knex instance; connections are opened lazily on first query
+ */
+export function createDatabase(options: DatabaseOptions): Knex {
+  return knex({
+    client: options.client,
+    connection: options.connection,
+    pool: options.pool,
+    acquireConnectionTimeout: options.pool?.acquireTimeoutMillis,
+    // SQLite cannot insert DEFAULT values; knex needs an explicit opt-in
+    useNullAsDefault: options.client === 'sqlite3' ? true : undefined,
+  });
+}
+
+/**
+ * Verify that a database accepts queries, naming the connection on failure
+ */
+export async function checkDatabase(name: string, db: Knex): Promise<void> {
+  try {
+    await db.raw('select 1');
+  } catch (error) {
+    throw new Error(`Database "${name}" is not reachable: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Elicitation (server-initiated user input) utilities
+ */
+
+import { z } from 'zod';
+import type { ElicitRequestFormParams } from '@modelcontextprotocol/sdk/types.js';
+import { zodToJsonSchema } from './tool.js';
+
+/**
+ * Derive the elicitation/create requested schema from a Zod object schema.
+ * Clients only render flat objects of primitive fields.
+ */
+export function toRequestedSchema(schema: z.ZodType<unknown>): ElicitRequestFormParams['requestedSchema'] {
+  const jsonSchema = zodToJsonSchema(schema);
+
+  if (jsonSchema.type !== 'object' || !jsonSchema.properties) {
+    throw new Error('Elicitation schema must be a Zod object of primitive fields');
+  }
+
+  return {
+    type: 'object',
+    properties: jsonSchema.properties as ElicitRequestFormParams['requestedSchema']['properties'],
+    required: jsonSchema.required,
+  };
+}
@@ -0,0 +1,243 @@
+/**
+ * HTTP listener wiring for Express and Fastify
+ */
+
+import type { IncomingMessage, ServerResponse, Server as NodeHttpServer } from 'http';
+import express from 'express';
+import { fastify, FastifyReply } from 'fastify';
+import type { Logger } from 'pino';
+import type { Middleware } from '../types.js';
+
+/**
+ * Maximum accepted request body size (matches the MCP SDK transports)
+ */
+const MAX_BODY_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Route handler operating on raw Node.js request/response objects
+ */
+export type HttpRouteHandler = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  body: unknown
+) => Promise<void>;
+
+/**
+ * Route served by the HTTP listener
+ */
+export interface HttpRoute {
+  method: 'GET' | 'POST' | 'DELETE';
+  path: string;
+  handler: HttpRouteHandler;
+}
+
+/**
+ * HTTP listener options
+ */
+export interface HttpListenerOptions {
+  framework: 'express' | 'fastify';
+  port: number;
+  host: string;
+  middlewares: Middleware[];
+  routes: HttpRoute[];
+  logger: Logger;
+}
+
+/**
+ * Running HTTP listener
+ */
+export interface HttpListener {
+  /** Underlying Node.js HTTP server */
+  server: NodeHttpServer;
+  /** Stop accepting connections and close the listener */
+  close: () => Promise<void>;
+}
+
+/**
+ * Middleware signature shared by Express and the Fastify adapter
+ */
+type GenericMiddleware = (req: unknown, res: unknown, next: () => void) => void | Promise<void>;
+
+/**
+ * Start an HTTP listener using the configured framework
+ */
+export async function startHttpListener(options: HttpListenerOptions): Promise<HttpListener> {
+  return options.framework === 'fastify'
+    ? startFastifyListener(options)
+    : startExpressListener(options);
+}
+
+/**
+ * Run a route handler, converting unexpected errors into a JSON-RPC error response
+ */
+async function runRoute(
+  route: HttpRoute,
+  req: IncomingMessage,
+  res: ServerResponse,
+  body: unknown,
+  logger: Logger
+): Promise<void> {
+  try {
+    await route.handler(req, res, body);
+  } catch (error) {
+    sendInternalError(error, req, res, logger);
+  }
+}
+
+/**
+ * Log an unexpected error and answer with a JSON-RPC internal error if nothing was sent yet
+ */
+function sendInternalError(error: unknown, req: IncomingMessage, res: ServerResponse, logger: Logger): void {
+  logger.error({
+    error: error instanceof Error ? error.message : String(error),
+    method: req.method,
+    url: req.url,
+  }, 'Error handling MCP HTTP request');
+
+  if (!res.headersSent) {
+    res.writeHead(500, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code: -32603, message: 'Internal server error' },
+      id: null,
+    }));
+  }
+}
+
+/**
+ * Start an Express listener
+ */
+async function startExpressListener(options: HttpListenerOptions): Promise<HttpListener> {
+  const app = express();
+  app.use(express.json({ limit: MAX_BODY_SIZE }));
+
+  for (const middleware of options.middlewares) {
+    const handler = middleware as unknown as GenericMiddleware;
+    // Express 4 does not catch rejected promises, so hand them to the error handler below
+    app.use((req, res, next) => {
+      Promise.resolve()
+        .then(() => handler(req, res, next))
+        .catch(next);
+    });
+  }
+
+  for (const route of options.routes) {
+    const method = route.method.toLowerCase() as 'get' | 'post' | 'delete';
+    app[method](route.path, (req, res) => {
+      void runRoute(route, req, res, req.body, options.logger);
+    });
+  }
+
+  app.use((error: unknown, req: express.Request, res: express.Response, next: express.NextFunction) => {
+    // Errors carrying a status (e.g. malformed JSON bodies) keep Express's own response
+    if (typeof (error as { status?: unknown })?.status === 'number') {
+      next(error);
+      return;
+    }
+    sendInternalError(error, req, res, options.logger);
+  });
+
+  const server = await new Promise<NodeHttpServer>((resolve, reject) => {
+    const listener = app.listen(options.port, options.host, () => resolve(listener));
+    listener.once('error', reject);
+  });
+
+  return {
+    server,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+      }),
+  };
+}
+
+/**
+ * Start a Fastify listener
+ */
+async function startFastifyListener(options: HttpListenerOptions): Promise<HttpListener> {
+  const app = fastify({ bodyLimit: MAX_BODY_SIZE, forceCloseConnections: true });
+
+  // Give replies the Express-style surface the built-in middleware expects
+  app.decorateReply('json', function (this: FastifyReply, data: unknown) {
+    this.send(data);
+  });
+  app.decorateReply('setHeader', function (this: FastifyReply, name: string, value: string) {
+    this.header(name, value);
+  });
+  app.decorateReply('end', function (this: FastifyReply) {
+    this.send();
+  });
+
+  app.addHook('preHandler', async (request, reply) => {
+    for (const middleware of options.middlewares) {
+      const proceed = await runMiddleware(
+        middleware as unknown as GenericMiddleware,
+        request,
+        reply,
+        () => reply.sent
+      );
+      if (!proceed) {
+        return reply;
+      }
+    }
+    return undefined;
+  });
+
+  // Preflight requests are answered by the CORS middleware in the preHandler hook
+  app.options('*', async (request, reply) => {
+    reply.code(204).send();
+  });
+
+  for (const route of options.routes) {
+    app.route({
+      method: route.method,
+      url: route.path,
+      handler: async (request, reply) => {
+        // Carry headers set by middleware (e.g. CORS) over to the raw response
+        for (const [name, value] of Object.entries(reply.getHeaders())) {
+          if (value !== undefined) {
+            reply.raw.setHeader(name, value);
+          }
+        }
+        reply.hijack();
+        await runRoute(route, request.raw, reply.raw, request.body, options.logger);
+      },
+    });
+  }
+
+  await app.listen({ port: options.port, host: options.host });
+
+  return {
+    server: app.server,
+    close: async () => {
+      await app.close();
+    },
+  };
+}
+
+/**
+ * Run a single Express-style middleware, resolving to whether the chain should continue
+ */
+function runMiddleware(
+  middleware: GenericMiddleware,
+  req: unknown,
+  res: unknown,
+  responded: () => boolean
+): Promise<boolean> {
+  return new Promise<boolean>((resolve, reject) => {
+    let proceeded = false;
+    const next = () => {
+      proceeded = true;
+      resolve(true);
+    };
+
+    Promise.resolve()
+      .then(() => middleware(req, res, next))
+      .then(() => {
+        if (!proceeded && responded()) {
+          resolve(false);
+        }
+      })
+      .catch(reject);
+  });
+}
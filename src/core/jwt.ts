@@ -0,0 +1,214 @@
+/**
+ * JWT verification against local key sets
+ */
+
+import { createHash, createHmac, createPublicKey, timingSafeEqual, verify, constants, JsonWebKey, KeyObject } from 'crypto';
+import { readFile } from 'fs/promises';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type { JwtOptions } from '../types.js';
+
+/**
+ * Asymmetric algorithms accepted unless JwtOptions.algorithms says otherwise
+ */
+const DEFAULT_ALGORITHMS = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512', 'EdDSA'];
+
+/**
+ * Key type each algorithm family signs with
+ */
+const KEY_TYPES: Record<string, string> = { RS: 'RSA', PS: 'RSA', ES: 'EC', Ed: 'OKP', HS: 'oct' };
+
+/**
+ * Minimum time between JWKS file reloads triggered by unknown key IDs
+ */
+const JWKS_RELOAD_INTERVAL = 30 * 1000;
+
+/**
+ * Decoded JWT claims
+ */
+export type JwtClaims = Record<string, unknown>;
+
+/**
+ * Create a verifier resolving to the claims of a valid token and rejecting
+ * with a descriptive error otherwise
+ */
+export function createJwtVerifier(options: JwtOptions): (token: string) => Promise<JwtClaims> {
+  if (!options.jwksFile && !options.keys) {
+    throw new Error('JWT auth requires jwt.jwksFile or jwt.keys');
+  }
+  // Without an audience check, tokens issued for any other resource would be accepted
+  if (!options.audience || options.audience.length === 0) {
+    throw new Error('JWT auth requires jwt.audience');
+  }
+
+  const algorithms = options.algorithms || DEFAULT_ALGORITHMS;
+  const clockTolerance = options.clockTolerance ?? 60;
+  let fileKeys: JsonWebKey[] | undefined;
+  let loadedAt = 0;
+
+  const loadJwks = async (): Promise<JsonWebKey[]> => {
+    const jwks = JSON.parse(await readFile(options.jwksFile!, 'utf8')) as { keys?: JsonWebKey[] };
+    if (!Array.isArray(jwks.keys)) {
+      throw new Error(`JWKS file "${options.jwksFile}" has no "keys" array`);
+    }
+    loadedAt = Date.now();
+    return jwks.keys;
+  };
+
+  // A kid missing from the file may mean the IdP rotated keys; pick up the new file
+  const resolveKeys = async (kid: string | undefined): Promise<JsonWebKey[]> => {
+    if (!options.jwksFile) {
+      return options.keys || [];
+    }
+
+    if (!fileKeys) {
+      fileKeys = await loadJwks();
+    } else if (kid && !fileKeys.some((key) => key.kid === kid) && Date.now() - loadedAt > JWKS_RELOAD_INTERVAL) {
+      fileKeys = await loadJwks();
+    }
+
+    return [...(options.keys || []), ...fileKeys];
+  };
+
+  return async (token: string): Promise<JwtClaims> => {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new Error('Malformed token');
+    }
+
+    const header = decodeSegment(parts[0]) as { alg?: string; kid?: string };
+    const claims = decodeSegment(parts[1]) as JwtClaims;
+
+    if (!header.alg || !algorithms.includes(header.alg)) {
+      throw new Error(`Token algorithm "${header.alg}" is not accepted`);
+    }
+
+    const candidates = (await resolveKeys(header.kid)).filter((key) =>
+      (!header.kid || key.kid === header.kid) &&
+      (!key.alg || key.alg === header.alg) &&
+      (!key.use || key.use === 'sig') &&
+      key.kty === KEY_TYPES[header.alg!.slice(0, 2)]
+    );
+    if (candidates.length === 0) {
+      throw new Error(header.kid ? `No key found for kid "${header.kid}"` : 'No key found for token');
+    }
+
+    const data = Buffer.from(`${parts[0]}.${parts[1]}`);
+    const signature = Buffer.from(parts[2], 'base64url');
+    if (!candidates.some((key) => verifySignature(header.alg!, key, data, signature))) {
+      throw new Error('Invalid token signature');
+    }
+
+    checkClaims(claims, options, clockTolerance);
+    return claims;
+  };
+}
+
+/**
+ * Describe a verified token in the form the MCP transports hand to request handlers
+ */
+export function toAuthInfo(token: string, claims: JwtClaims): AuthInfo {
+  const scope = claims.scope ?? claims.scp;
+  const scopes = typeof scope === 'string'
+    ? scope.split(' ').filter(Boolean)
+    : Array.isArray(scope) ? scope.map(String) : [];
+  const subject = typeof claims.sub === 'string' && claims.sub ? claims.sub : undefined;
+  const client = claims.client_id ?? claims.azp;
+  const clientId = typeof client === 'string' && client ? client : subject;
+
+  return {
+    token,
+    clientId: clientId || '',
+    scopes,
+    expiresAt: typeof claims.exp === 'number' ? claims.exp : undefined,
+    // A token naming no subject or client is still a caller of its own
+    extra: { principal: subject ?? clientId ?? `token:${tokenFingerprint(token)}`, claims },
+  };
+}
+
+/**
+ * Short stable fingerprint naming a caller known only by its token
+ */
+export function tokenFingerprint(token: string): string {
+  return createHash('sha256').update(token).digest('hex').slice(0, 16);
+}
+
+/**
+ * Decode a base64url JSON segment
+ */
+function decodeSegment(segment: string): unknown {
+  try {
+    const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    if (typeof value !== 'object' || value === null) {
+      throw new Error('not an object');
+    }
+    return value;
+  } catch {
+    throw new Error('Malformed token');
+  }
+}
+
+/**
+ * Check a signature with one key, treating unusable keys as non-matching
+ */
+function verifySignature(alg: string, jwk: JsonWebKey, data: Buffer, signature: Buffer): boolean {
+  const hash = `sha${alg.slice(2)}`;
+
+  try {
+    if (alg.startsWith('HS')) {
+      const expected = createHmac(hash, Buffer.from(String(jwk.k), 'base64url')).update(data).digest();
+      return expected.length === signature.length && timingSafeEqual(expected, signature);
+    }
+
+    const key: KeyObject = createPublicKey({ key: jwk, format: 'jwk' });
+
+    if (alg === 'EdDSA') {
+      return verify(null, data, key, signature);
+    }
+    if (alg.startsWith('PS')) {
+      return verify(hash, data, {
+        key,
+        padding: constants.RSA_PKCS1_PSS_PADDING,
+        saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+      }, signature);
+    }
+    if (alg.startsWith('ES')) {
+      return verify(hash, data, { key, dsaEncoding: 'ieee-p1363' }, signature);
+    }
+    return verify(hash, data, key, signature);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate registered claims: exp (required unless opted out) and nbf within the
+ * clock tolerance, aud, and iss if configured
+ */
+function checkClaims(claims: JwtClaims, options: JwtOptions, clockTolerance: number): void {
+  const now = Math.floor(Date.now() / 1000);
+
+  if (claims.exp === undefined && options.requireExpiration !== false) {
+    throw new Error('Token has no expiration');
+  }
+
+  if (claims.exp !== undefined && (typeof claims.exp !== 'number' || now > claims.exp + clockTolerance)) {
+    throw new Error('Token expired');
+  }
+
+  if (claims.nbf !== undefined && (typeof claims.nbf !== 'number' || now + clockTolerance < claims.nbf)) {
+    throw new Error('Token not yet valid');
+  }
+
+  if (options.issuer) {
+    const issuers = Array.isArray(options.issuer) ? options.issuer : [options.issuer];
+    if (typeof claims.iss !== 'string' || !issuers.includes(claims.iss)) {
+      throw new Error(`Token issuer "${String(claims.iss)}" is not accepted`);
+    }
+  }
+
+  const audiences = Array.isArray(options.audience) ? options.audience : [options.audience];
+  const tokenAudiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!tokenAudiences.some((aud) => typeof aud === 'string' && audiences.includes(aud))) {
+    throw new Error('Token audience is not accepted');
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Client-visible logging utilities
+ */
+
+import { format } from 'util';
+import type { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * MCP log levels from least to most severe (RFC 5424 order)
+ */
+const LOGGING_LEVELS: LoggingLevel[] = [
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+];
+
+/**
+ * Map a pino level value to the closest MCP log level
+ */
+export function toLoggingLevel(level: number): LoggingLevel {
+  if (level >= 60) return 'critical';
+  if (level >= 50) return 'error';
+  if (level >= 40) return 'warning';
+  if (level >= 30) return 'info';
+  return 'debug';
+}
+
+/**
+ * Check whether a record at `level` passes a client-selected minimum level
+ */
+export function isLoggingLevelEnabled(level: LoggingLevel, minimum: LoggingLevel): boolean {
+  return LOGGING_LEVELS.indexOf(level) >= LOGGING_LEVELS.indexOf(minimum);
+}
+
+/**
+ * Convert pino log method arguments (`msg, ...args` or `obj, msg?, ...args`)
+ * into the structured data of a notifications/message
+ */
+export function toLoggingData(args: unknown[]): unknown {
+  const [first, ...rest] = args;
+
+  if (first instanceof Error) {
+    const [message, ...interpolation] = rest;
+    return {
+      message: typeof message === 'string' ? format(message, ...interpolation) : first.message,
+      error: { name: first.name, message: first.message, stack: first.stack },
+    };
+  }
+
+  if (typeof first === 'object' && first !== null) {
+    const [message, ...interpolation] = rest;
+    return typeof message === 'string'
+      ? { ...first, message: format(message, ...interpolation) }
+      : { ...first };
+  }
+
+  return format(first, ...rest);
+}
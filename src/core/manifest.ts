@@ -2,7 +2,13 @@
  * Manifest generation utilities
  */
 
-import type { MCPManifest, MCPServerConfig, MCPToolDefinition } from '../types.js';
+import type {
+  MCPManifest,
+  MCPServerConfig,
+  MCPToolDefinition,
+  MCPResourceDefinition,
+  MCPPromptDefinition,
+} from '../types.js';
 import { zodToJsonSchema } from './tool.js';
 
 /**
@@ -10,7 +16,9 @@ import { zodToJsonSchema } from './tool.js';
  */
 export function generateManifest(
   config: MCPServerConfig,
-  tools: MCPToolDefinition[]
+  tools: MCPToolDefinition[],
+  resources: MCPResourceDefinition[] = [],
+  prompts: MCPPromptDefinition[] = []
 ): MCPManifest {
   const metadata: Record<string, string | number | boolean> = {
     framework: config.framework || 'mcp-sdk-ts',
@@ -39,9 +47,23 @@ export function generateManifest(
       name: tool.name,
       description: tool.description,
       input: zodToJsonSchema(tool.inputSchema),
-      output: zodToJsonSchema(tool.outputSchema),
+      output: tool.outputSchema ? zodToJsonSchema(tool.outputSchema) : undefined,
       metadata: tool.metadata,
     })),
+    prompts: prompts.map((prompt) => ({
+      name: prompt.name,
+      description: prompt.description,
+      args: zodToJsonSchema(prompt.argsSchema),
+      metadata: prompt.metadata,
+    })),
+    resources: resources.map((resource) => ({
+      name: resource.name,
+      uri: resource.uri,
+      uriTemplate: resource.uriTemplate,
+      description: resource.description,
+      mimeType: resource.mimeType,
+      metadata: resource.metadata,
+    })),
     metadata,
   };
 }
@@ -67,7 +89,9 @@ export function generateMarkdownDocs(manifest: MCPManifest): string {
     }
     
     md += `**Input Schema:**\n\n\`\`\`json\n${JSON.stringify(tool.input, null, 2)}\n\`\`\`\n\n`;
-    md += `**Output Schema:**\n\n\`\`\`json\n${JSON.stringify(tool.output, null, 2)}\n\`\`\`\n\n`;
+    if (tool.output) {
+      md += `**Output Schema:**\n\n\`\`\`json\n${JSON.stringify(tool.output, null, 2)}\n\`\`\`\n\n`;
+    }
     
     if (tool.metadata) {
       md += `**Metadata:**\n\n\`\`\`json\n${JSON.stringify(tool.metadata, null, 2)}\n\`\`\`\n\n`;
@@ -75,6 +99,26 @@ export function generateMarkdownDocs(manifest: MCPManifest): string {
     
     md += '---\n\n';
   }
+
+  if (manifest.prompts && manifest.prompts.length > 0) {
+    md += `## Prompts\n\n`;
+
+    for (const prompt of manifest.prompts) {
+      md += `### ${prompt.name}\n\n`;
+
+      if (prompt.description) {
+        md += `${prompt.description}\n\n`;
+      }
+
+      md += `**Arguments Schema:**\n\n\`\`\`json\n${JSON.stringify(prompt.args, null, 2)}\n\`\`\`\n\n`;
+
+      if (prompt.metadata) {
+        md += `**Metadata:**\n\n\`\`\`json\n${JSON.stringify(prompt.metadata, null, 2)}\n\`\`\`\n\n`;
+      }
+
+      md += '---\n\n';
+    }
+  }
   
   return md;
 }
@@ -101,11 +145,13 @@ export function generateOpenAPISpec(manifest: MCPManifest): Record<string, unkno
         responses: {
           '200': {
             description: 'Successful response',
-            content: {
-              'application/json': {
-                schema: tool.output,
-              },
-            },
+            content: tool.output
+              ? {
+                  'application/json': {
+                    schema: tool.output,
+                  },
+                }
+              : undefined,
           },
           '400': {
             description: 'Bad request - validation error',
@@ -6,7 +6,10 @@ import type { Request, Response, NextFunction } from 'express';
 import type { FastifyRequest, FastifyReply } from 'fastify';
 import type { Logger } from 'pino';
 import type { AxiosInstance } from 'axios';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import type { MCPContext, AuthOptions, RateLimitOptions, CorsOptions } from '../types.js';
+import { RateLimiter, RateLimitDecision } from './ratelimit.js';
+import { createJwtVerifier, toAuthInfo, tokenFingerprint, JwtClaims } from './jwt.js';
 
 /**
  * Generic request type that works with both Express and Fastify
@@ -18,6 +21,10 @@ interface GenericRequest {
   id?: string;
   headers: Record<string, string | string[] | undefined>;
   body?: unknown;
+  /** Authenticated caller, read by the MCP transports */
+  auth?: AuthInfo;
+  /** Node.js request wrapped by a Fastify request */
+  raw?: GenericRequest;
 }
 
 /**
@@ -30,133 +37,262 @@ interface GenericResponse {
   end(): void;
   send?: (data: unknown) => unknown;
   statusCode?: number;
+  on?: (event: 'finish', listener: () => void) => unknown;
+  raw?: GenericResponse;
 }
 
 /**
- * Simple in-memory rate limiter
+ * Create rate limiting middleware
  */
-class RateLimiter {
-  private requests: Map<string, number[]> = new Map();
+export function createRateLimitMiddleware(options: RateLimitOptions, logger?: Logger) {
+  const limiter = new RateLimiter(options, options.store);
+  const sendHeaders = options.headers !== false;
 
-  constructor(private max: number, private windowMs: number) {}
+  return async (req: GenericRequest, res: GenericResponse, next: () => void) => {
+    const forwarded = req.headers['x-forwarded-for'];
+    const key = `http:${req.ip || (Array.isArray(forwarded) ? forwarded[0] : forwarded) || 'unknown'}`;
 
-  check(key: string): boolean {
-    const now = Date.now();
-    const requests = this.requests.get(key) || [];
-    
-    // Remove old requests outside the window
-    const validRequests = requests.filter((time) => now - time < this.windowMs);
-    
-    if (validRequests.length >= this.max) {
-      return false;
+    let decision: RateLimitDecision;
+    try {
+      decision = await limiter.consume(key);
+    } catch (error) {
+      // An unavailable store must not take the server down with it
+      logger?.warn(`Rate limit store failed, allowing request: ${error instanceof Error ? error.message : String(error)}`);
+      next();
+      return;
     }
-    
-    validRequests.push(now);
-    this.requests.set(key, validRequests);
-    
-    return true;
-  }
-
-  reset(key: string): void {
-    this.requests.delete(key);
-  }
-}
 
-/**
- * Create rate limiting middleware
- */
-export function createRateLimitMiddleware(options: RateLimitOptions) {
-  const windowMs = typeof options.timeWindow === 'string' 
-    ? parseTimeWindow(options.timeWindow)
-    : options.timeWindow;
-    
-  const limiter = new RateLimiter(options.max, windowMs);
+    if (sendHeaders) {
+      res.setHeader('X-RateLimit-Limit', String(decision.limit));
+      res.setHeader('X-RateLimit-Remaining', String(decision.remaining));
+      res.setHeader('X-RateLimit-Reset', String(Math.ceil((decision.at + decision.resetMs) / 1000)));
+    }
 
-  return (req: GenericRequest, res: GenericResponse, next: () => void) => {
-    const key = req.ip || (Array.isArray(req.headers['x-forwarded-for']) ? req.headers['x-forwarded-for'][0] : req.headers['x-forwarded-for']) || 'unknown';
-    
-    if (!limiter.check(key)) {
+    if (!decision.allowed) {
+      if (sendHeaders) {
+        res.setHeader('Retry-After', String(Math.ceil(decision.retryAfterMs / 1000)));
+      }
       res.status(429).json({
         error: 'Too many requests',
         message: `Rate limit exceeded. Max ${options.max} requests per ${options.timeWindow}`,
       });
       return;
     }
-    
+
+    if (options.skipSuccessfulRequests || options.skipFailedRequests) {
+      onResponseFinished(res, (statusCode) => {
+        const failed = statusCode >= 400;
+        if (failed ? options.skipFailedRequests : options.skipSuccessfulRequests) {
+          limiter.refund(key, decision).catch((error) => {
+            logger?.warn(`Rate limit refund failed: ${error instanceof Error ? error.message : String(error)}`);
+          });
+        }
+      });
+    }
+
     next();
   };
 }
 
 /**
- * Parse time window string (e.g., '1m', '1h', '1d')
+ * Call back with the status code once the response has been sent
  */
-function parseTimeWindow(timeWindow: string): number {
-  const match = timeWindow.match(/^(\d+)([smhd])$/);
-  if (!match) {
-    throw new Error(`Invalid time window format: ${timeWindow}`);
+function onResponseFinished(res: GenericResponse, callback: (statusCode: number) => void): void {
+  // Fastify replies wrap the Node.js response the status ends up on
+  const target = res.raw || res;
+  target.on?.('finish', () => callback(target.statusCode ?? 200));
+}
+
+/**
+ * Authentication failure payload
+ */
+export interface AuthFailure {
+  error: string;
+  message: string;
+}
+
+/**
+ * Path of the OAuth protected resource metadata document
+ */
+export const RESOURCE_METADATA_PATH = '/.well-known/oauth-protected-resource';
+
+/**
+ * JWT verifiers per auth config, so key sets are loaded once
+ */
+const jwtVerifiers = new WeakMap<AuthOptions, (token: string) => Promise<JwtClaims>>();
+
+/**
+ * Get the JWT verifier for auth options, creating it on first use
+ */
+function getJwtVerifier(options: AuthOptions): (token: string) => Promise<JwtClaims> {
+  let verifier = jwtVerifiers.get(options);
+  if (!verifier) {
+    if (!options.jwt) {
+      throw new Error('JWT auth requires the jwt option');
+    }
+    verifier = createJwtVerifier(options.jwt);
+    jwtVerifiers.set(options, verifier);
+  }
+  return verifier;
+}
+
+/**
+ * Authenticate a request against auth options, resolving to a failure payload if rejected.
+ * The authenticated caller is attached to the request as `auth`, where the MCP transports pick it up.
+ */
+export async function authenticateRequest(
+  options: AuthOptions,
+  req: GenericRequest,
+  http?: AxiosInstance,
+  logger?: Logger
+): Promise<AuthFailure | null> {
+  let token: string | undefined;
+
+  if (options.type === 'apiKey') {
+    const headerName = options.headerName || 'x-api-key';
+    const headerValue = req.headers[headerName.toLowerCase()];
+    token = Array.isArray(headerValue) ? headerValue[0] : headerValue;
+  } else if (options.type === 'bearer' || options.type === 'jwt') {
+    const authHeader = req.headers.authorization;
+    const authHeaderStr = Array.isArray(authHeader) ? authHeader[0] : authHeader;
+    if (authHeaderStr?.startsWith('Bearer ')) {
+      token = authHeaderStr.substring(7);
+    }
+  }
+
+  if (!token) {
+    return {
+      error: 'Authentication required',
+      message: `Missing ${options.type} token`,
+    };
   }
-  
-  const value = parseInt(match[1], 10);
-  const unit = match[2];
-  
-  const multipliers: Record<string, number> = {
-    s: 1000,
-    m: 60 * 1000,
-    h: 60 * 60 * 1000,
-    d: 24 * 60 * 60 * 1000,
+
+  let authInfo: AuthInfo;
+
+  if (options.type === 'jwt') {
+    try {
+      authInfo = toAuthInfo(token, await getJwtVerifier(options)(token));
+    } catch (error) {
+      return {
+        error: 'Authentication failed',
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+  } else {
+    authInfo = fingerprintAuthInfo(token);
+  }
+
+  if (options.validate) {
+    const ctx: Partial<MCPContext> = {
+      http: http || undefined as unknown as AxiosInstance,
+      logger: logger || undefined as unknown as Logger,
+      env: process.env as Record<string, string | undefined>,
+    };
+    
+    const result = await options.validate(token, ctx as MCPContext);
+    if (!result) {
+      return {
+        error: 'Authentication failed',
+        message: 'Invalid token',
+      };
+    }
+
+    if (typeof result === 'object') {
+      const verified = authInfo.extra as { claims?: Record<string, unknown> } | undefined;
+      authInfo = {
+        ...authInfo,
+        clientId: authInfo.clientId || result.principal,
+        scopes: result.scopes || authInfo.scopes,
+        extra: { principal: result.principal, claims: result.claims || verified?.claims || {} },
+      };
+    }
+  }
+
+  // Fastify hands the transports the raw Node.js request
+  (req.raw || req).auth = authInfo;
+  return null;
+}
+
+/**
+ * Describe a caller known only by an opaque token, naming it by a fingerprint
+ * so handlers and per-principal limits can tell callers apart without seeing the token
+ */
+function fingerprintAuthInfo(token: string): AuthInfo {
+  return {
+    token,
+    clientId: '',
+    scopes: [],
+    extra: { principal: `token:${tokenFingerprint(token)}`, claims: {} },
   };
-  
-  return value * multipliers[unit];
 }
 
 /**
  * Create authentication middleware
  */
 export function createAuthMiddleware(options: AuthOptions, http?: AxiosInstance, logger?: Logger) {
-  return async (req: GenericRequest, res: GenericResponse, next: () => void) => {
-    let token: string | undefined;
-
-    if (options.type === 'apiKey') {
-      const headerName = options.headerName || 'x-api-key';
-      const headerValue = req.headers[headerName.toLowerCase()];
-      token = Array.isArray(headerValue) ? headerValue[0] : headerValue;
-    } else if (options.type === 'bearer') {
-      const authHeader = req.headers.authorization;
-      const authHeaderStr = Array.isArray(authHeader) ? authHeader[0] : authHeader;
-      if (authHeaderStr?.startsWith('Bearer ')) {
-        token = authHeaderStr.substring(7);
-      }
-    }
+  if (options.type === 'jwt') {
+    // Fail at startup rather than on the first request
+    getJwtVerifier(options);
+  }
 
-    if (!token) {
-      res.status(401).json({
-        error: 'Authentication required',
-        message: `Missing ${options.type} token`,
-      });
+  return async (req: GenericRequest, res: GenericResponse, next: () => void) => {
+    if (isPublicPath(req.url)) {
+      next();
       return;
     }
 
-    if (options.validate) {
-      const ctx: Partial<MCPContext> = {
-        http: http || undefined as unknown as AxiosInstance,
-        logger: logger || undefined as unknown as Logger,
-        env: process.env as Record<string, string | undefined>,
-      };
-      
-      const isValid = await options.validate(token, ctx as MCPContext);
-      if (!isValid) {
-        res.status(401).json({
-          error: 'Authentication failed',
-          message: 'Invalid token',
-        });
-        return;
+    const failure = await authenticateRequest(options, req, http, logger);
+    if (failure) {
+      const challenge = authChallenge(options, req, failure);
+      if (challenge) {
+        res.setHeader('WWW-Authenticate', challenge);
       }
+      res.status(401).json(failure);
+      return;
     }
 
     next();
   };
 }
 
+/**
+ * Whether a path is served without authentication (discovery metadata under /.well-known/)
+ */
+export function isPublicPath(url: string | undefined): boolean {
+  return Boolean(url?.startsWith('/.well-known/'));
+}
+
+/**
+ * Build the WWW-Authenticate challenge for a rejected bearer or jwt request,
+ * pointing clients at the protected resource metadata
+ */
+export function authChallenge(options: AuthOptions, req: GenericRequest, failure: AuthFailure): string | undefined {
+  if (options.type !== 'bearer' && options.type !== 'jwt') {
+    return undefined;
+  }
+
+  const params = [`resource_metadata="${requestOrigin(req)}${RESOURCE_METADATA_PATH}"`];
+
+  // RFC 6750: requests without credentials get no error code
+  if (failure.error !== 'Authentication required') {
+    params.push('error="invalid_token"', `error_description="${failure.message.replace(/["\\]/g, '')}"`);
+  }
+
+  return `Bearer ${params.join(', ')}`;
+}
+
+/**
+ * Origin the client used to reach the server, honoring proxy headers
+ */
+export function requestOrigin(req: GenericRequest): string {
+  const header = (name: string) => {
+    const value = req.headers[name];
+    return (Array.isArray(value) ? value[0] : value)?.split(',')[0].trim();
+  };
+
+  return `${header('x-forwarded-proto') || 'http'}://${header('x-forwarded-host') || header('host') || 'localhost'}`;
+}
+
 /**
  * CORS middleware
  */
@@ -171,6 +307,10 @@ export function createCorsMiddleware(options?: CorsOptions) {
     res.setHeader('Access-Control-Allow-Methods', methods.join(', '));
     res.setHeader('Access-Control-Allow-Headers', allowedHeaders.join(', '));
 
+    if (options?.exposedHeaders) {
+      res.setHeader('Access-Control-Expose-Headers', options.exposedHeaders.join(', '));
+    }
+
     if (options?.credentials) {
       res.setHeader('Access-Control-Allow-Credentials', 'true');
     }
@@ -0,0 +1,224 @@
+/**
+ * Declarative tool access policies
+ */
+
+import { readFileSync } from 'fs';
+import { isDeepStrictEqual } from 'util';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+import { formatZodError } from './tool.js';
+import type { PolicyCall, PolicyCondition, PolicyDecision, PolicyDocument, PolicyRule } from '../types.js';
+
+const globsSchema = z.union([z.string(), z.array(z.string())]);
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected a time as HH:MM');
+const comparableSchema = z.union([z.number(), z.string()]);
+
+/**
+ * Shape of a policy document; unknown keys are rejected so typos don't silently widen a rule
+ */
+const policySchema = z.object({
+  default: z.enum(['allow', 'deny', 'confirm']).optional(),
+  rules: z.array(z.object({
+    id: z.string().optional(),
+    effect: z.enum(['allow', 'deny', 'confirm']),
+    tools: globsSchema.optional(),
+    principal: z.object({
+      ids: globsSchema.optional(),
+      scopes: z.array(z.string()).optional(),
+      claims: z.record(z.unknown()).optional(),
+    }).strict().optional(),
+    metadata: z.record(z.union([z.string(), z.number(), z.boolean()])).optional(),
+    time: z.object({
+      after: timeSchema.optional(),
+      before: timeSchema.optional(),
+      days: z.array(z.enum(['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'])).optional(),
+      timezone: z.string().refine(isTimeZone, 'Unknown time zone').optional(),
+    }).strict().optional(),
+    input: z.array(z.object({
+      field: z.string(),
+      eq: z.unknown().optional(),
+      ne: z.unknown().optional(),
+      lt: comparableSchema.optional(),
+      lte: comparableSchema.optional(),
+      gt: comparableSchema.optional(),
+      gte: comparableSchema.optional(),
+      in: z.array(z.unknown()).optional(),
+      nin: z.array(z.unknown()).optional(),
+      matches: z.string().refine(isRegExp, 'Invalid regular expression').optional(),
+      exists: z.boolean().optional(),
+    }).strict()).optional(),
+    message: z.string().optional(),
+  }).strict()),
+}).strict();
+
+/**
+ * Validate a policy document, naming its source on failure
+ */
+export function parsePolicy(value: unknown, source: string): PolicyDocument {
+  const result = policySchema.safeParse(value);
+  if (!result.success) {
+    throw new Error(`Invalid policy in ${source}: ${formatZodError(result.error)}`);
+  }
+  return result.data as PolicyDocument;
+}
+
+/**
+ * Read and validate a JSON or YAML (.yaml/.yml) policy file
+ */
+export function loadPolicyFile(filePath: string): PolicyDocument {
+  const text = readFileSync(filePath, 'utf-8');
+  let value: unknown;
+
+  try {
+    value = filePath.endsWith('.yaml') || filePath.endsWith('.yml') ? yaml.load(text) : JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid policy in ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return parsePolicy(value, filePath);
+}
+
+/**
+ * Decide a tool call: the first rule matching it wins, otherwise the default applies
+ */
+export function evaluatePolicy(policy: PolicyDocument, call: PolicyCall, now: Date = new Date()): PolicyDecision {
+  for (const [index, rule] of policy.rules.entries()) {
+    if (matchesRule(rule, call, now)) {
+      return { effect: rule.effect, rule: rule.id || `rules[${index}]`, message: rule.message };
+    }
+  }
+
+  return { effect: policy.default || 'allow' };
+}
+
+/**
+ * Check every condition a rule sets against a call
+ */
+function matchesRule(rule: PolicyRule, call: PolicyCall, now: Date): boolean {
+  if (rule.tools !== undefined && !matchesGlobs(rule.tools, call.tool)) {
+    return false;
+  }
+
+  if (rule.principal) {
+    const { ids, scopes, claims } = rule.principal;
+    const auth = call.auth;
+
+    if (!auth) {
+      return false;
+    }
+    if (ids !== undefined && !matchesGlobs(ids, auth.principal)) {
+      return false;
+    }
+    if (scopes && !scopes.every((scope) => auth.scopes.includes(scope))) {
+      return false;
+    }
+    if (claims && !Object.entries(claims).every(([name, expected]) => matchesClaim(auth.claims[name], expected))) {
+      return false;
+    }
+  }
+
+  if (rule.metadata && !Object.entries(rule.metadata).every(([key, value]) => call.metadata?.[key] === value)) {
+    return false;
+  }
+
+  if (rule.time && !matchesTime(rule.time, now)) {
+    return false;
+  }
+
+  return (rule.input || []).every((condition) => matchesCondition(condition, call.input));
+}
+
+/**
+ * Match a name against one or more globs
+ */
+function matchesGlobs(globs: string | string[], name: string): boolean {
+  return (Array.isArray(globs) ? globs : [globs]).some((glob) => {
+    const pattern = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+    return new RegExp(`^${pattern}$`).test(name);
+  });
+}
+
+/**
+ * Match a claim value; an expected array lists accepted values, and array claims match if any element does
+ */
+function matchesClaim(actual: unknown, expected: unknown): boolean {
+  const accepted = Array.isArray(expected) ? expected : [expected];
+  const values = Array.isArray(actual) ? actual : [actual];
+  return values.some((value) => accepted.some((candidate) => isDeepStrictEqual(value, candidate)));
+}
+
+/**
+ * Check a time window in the rule's time zone
+ */
+function matchesTime(time: NonNullable<PolicyRule['time']>, now: Date): boolean {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: time.timezone || 'UTC',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(now).map((part) => [part.type, part.value])
+  );
+
+  const day = parts.weekday.toLowerCase() as NonNullable<typeof time.days>[number];
+  if (time.days && !time.days.includes(day)) {
+    return false;
+  }
+
+  const minutes = toMinutes(`${parts.hour}:${parts.minute}`);
+  const after = time.after ? toMinutes(time.after) : 0;
+  const before = time.before ? toMinutes(time.before) : 24 * 60;
+
+  return after <= before
+    ? minutes >= after && minutes < before
+    : minutes >= after || minutes < before;
+}
+
+/**
+ * Check an input predicate; comparisons only hold between values of the same type
+ */
+function matchesCondition(condition: PolicyCondition, input: unknown): boolean {
+  const value = condition.field.split('.').reduce<unknown>(
+    (current, key) => (typeof current === 'object' && current !== null ? (current as Record<string, unknown>)[key] : undefined),
+    input
+  );
+
+  const comparable = (bound: number | string) => typeof value === typeof bound;
+
+  if (condition.exists !== undefined && (value !== undefined) !== condition.exists) return false;
+  if ('eq' in condition && !isDeepStrictEqual(value, condition.eq)) return false;
+  if ('ne' in condition && isDeepStrictEqual(value, condition.ne)) return false;
+  if (condition.lt !== undefined && !(comparable(condition.lt) && (value as number | string) < condition.lt)) return false;
+  if (condition.lte !== undefined && !(comparable(condition.lte) && (value as number | string) <= condition.lte)) return false;
+  if (condition.gt !== undefined && !(comparable(condition.gt) && (value as number | string) > condition.gt)) return false;
+  if (condition.gte !== undefined && !(comparable(condition.gte) && (value as number | string) >= condition.gte)) return false;
+  if (condition.in && !condition.in.some((candidate) => isDeepStrictEqual(value, candidate))) return false;
+  if (condition.nin && condition.nin.some((candidate) => isDeepStrictEqual(value, candidate))) return false;
+  if (condition.matches !== undefined && !(typeof value === 'string' && new RegExp(condition.matches).test(value))) return false;
+
+  return true;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
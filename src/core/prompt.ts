@@ -0,0 +1,93 @@
+/**
+ * Prompt definition utilities
+ */
+
+import { z } from 'zod';
+import type { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import type { CompletionCallback, MCPPromptDefinition, PromptHandler, PromptMessage } from '../types.js';
+import { zodToJsonSchema } from './tool.js';
+
+/**
+ * Define a new MCP prompt with a type-safe argument schema
+ */
+export function definePrompt<TArgs = Record<string, never>>(config: {
+  name: string;
+  description?: string;
+  args?: z.ZodType<TArgs>;
+  handler: PromptHandler<TArgs>;
+  complete?: Record<string, CompletionCallback>;
+  metadata?: Record<string, string | number | boolean>;
+}): MCPPromptDefinition<TArgs> {
+  return {
+    name: config.name,
+    description: config.description,
+    argsSchema: config.args || (z.object({}) as unknown as z.ZodType<TArgs>),
+    handler: config.handler,
+    complete: config.complete,
+    metadata: config.metadata,
+  };
+}
+
+/**
+ * Derive the prompts/list argument descriptors from a prompt's argument schema
+ */
+export function toPromptArguments(schema: z.ZodType<unknown>): NonNullable<Prompt['arguments']> {
+  const jsonSchema = zodToJsonSchema(schema);
+  const required = jsonSchema.required || [];
+
+  return Object.entries(jsonSchema.properties || {}).map(([name, property]) => ({
+    name,
+    description: property.description,
+    required: required.includes(name),
+  }));
+}
+
+/**
+ * Normalize prompt handler output into MCP prompt messages
+ */
+export function toPromptMessages(
+  result: PromptMessage[] | { description?: string; messages: PromptMessage[] }
+): GetPromptResult {
+  const { description, messages } = Array.isArray(result) ? { description: undefined, messages: result } : result;
+
+  return {
+    description,
+    messages: messages.map((message) => {
+      const content = message.content;
+
+      if (typeof content === 'string') {
+        return { role: message.role, content: { type: 'text' as const, text: content } };
+      }
+
+      if (content.type === 'image') {
+        return {
+          role: message.role,
+          content: {
+            type: 'image' as const,
+            mimeType: content.mimeType,
+            data: typeof content.data === 'string' ? content.data : Buffer.from(content.data).toString('base64'),
+          },
+        };
+      }
+
+      if (content.type === 'resource') {
+        const resource = content.resource;
+        return {
+          role: message.role,
+          content: {
+            type: 'resource' as const,
+            resource: 'text' in resource
+              ? { uri: resource.uri, mimeType: resource.mimeType, text: resource.text }
+              : {
+                  uri: resource.uri,
+                  mimeType: resource.mimeType,
+                  blob: typeof resource.blob === 'string' ? resource.blob : Buffer.from(resource.blob).toString('base64'),
+                },
+          },
+        };
+      }
+
+      return { role: message.role, content };
+    }),
+  };
+}
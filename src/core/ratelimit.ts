@@ -0,0 +1,433 @@
+/**
+ * Rate limiting algorithms and state stores
+ */
+
+import type { Knex } from 'knex';
+import { createDatabase } from './database.js';
+import type {
+  QuotaUsage,
+  QuotaView,
+  RateLimitOptions,
+  RateLimitRecord,
+  RateLimitStore,
+  ToolRateLimitOptions,
+} from '../types.js';
+
+/**
+ * Outcome of counting a request against a limit
+ */
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** Requests allowed per window, or the bucket capacity */
+  limit: number;
+  /** Requests left before the limit is hit */
+  remaining: number;
+  /** Milliseconds until the limit has fully reset */
+  resetMs: number;
+  /** Milliseconds until a request would be allowed again (0 when allowed) */
+  retryAfterMs: number;
+  /** Time the request was counted; identifies it for refunds */
+  at: number;
+}
+
+/**
+ * Rate limiter keeping its state in a pluggable store
+ */
+export class RateLimiter {
+  private readonly max: number;
+  private readonly windowMs: number;
+  private readonly capacity: number;
+  private readonly algorithm: 'sliding-window' | 'token-bucket';
+
+  constructor(
+    options: Pick<RateLimitOptions, 'max' | 'timeWindow' | 'algorithm' | 'burst'>,
+    private readonly store: RateLimitStore = createMemoryRateLimitStore()
+  ) {
+    this.max = options.max;
+    this.windowMs = typeof options.timeWindow === 'string'
+      ? parseTimeWindow(options.timeWindow)
+      : options.timeWindow;
+    this.capacity = options.burst ?? options.max;
+    this.algorithm = options.algorithm || 'sliding-window';
+  }
+
+  /**
+   * Count a request for `key`, unless the limit has been reached
+   */
+  async consume(key: string): Promise<RateLimitDecision> {
+    const now = Date.now();
+    let decision: RateLimitDecision | undefined;
+
+    if (this.algorithm === 'token-bucket') {
+      await this.store.update(key, this.bucketTtl(), (record) => {
+        const tokens = this.refill(record, now);
+        const allowed = tokens >= 1;
+        const left = allowed ? tokens - 1 : tokens;
+
+        decision = {
+          allowed,
+          limit: this.capacity,
+          remaining: Math.floor(left),
+          resetMs: Math.ceil((this.capacity - left) * this.windowMs / this.max),
+          retryAfterMs: allowed ? 0 : Math.ceil((1 - left) * this.windowMs / this.max),
+          at: now,
+        };
+        return { tokens: left, updatedAt: now };
+      });
+    } else {
+      await this.store.update(key, this.windowMs, (record) => {
+        const hits = (record?.hits || []).filter((time) => now - time < this.windowMs);
+        const allowed = hits.length < this.max;
+
+        if (allowed) {
+          hits.push(now);
+        }
+
+        const resetMs = hits[0] + this.windowMs - now;
+        decision = {
+          allowed,
+          limit: this.max,
+          remaining: this.max - hits.length,
+          resetMs,
+          retryAfterMs: allowed ? 0 : resetMs,
+          at: now,
+        };
+        return { hits };
+      });
+    }
+
+    return decision!;
+  }
+
+  /**
+   * Give back a request counted by consume(), e.g. when it should be skipped
+   */
+  async refund(key: string, decision: RateLimitDecision): Promise<void> {
+    if (!decision.allowed) {
+      return;
+    }
+
+    if (this.algorithm === 'token-bucket') {
+      const now = Date.now();
+      await this.store.update(key, this.bucketTtl(), (record) => ({
+        tokens: Math.min(this.capacity, this.refill(record, now) + 1),
+        updatedAt: now,
+      }));
+    } else {
+      await this.store.update(key, this.windowMs, (record) => {
+        const hits = [...(record?.hits || [])];
+        const index = hits.indexOf(decision.at);
+        if (index !== -1) {
+          hits.splice(index, 1);
+        }
+        return { hits };
+      });
+    }
+  }
+
+  /**
+   * Forget all requests counted for `key`
+   */
+  async reset(key: string): Promise<void> {
+    await this.store.reset(key);
+  }
+
+  /**
+   * Tokens in the bucket at `now`; a missing record is a full bucket
+   */
+  private refill(record: RateLimitRecord | undefined, now: number): number {
+    if (record?.tokens === undefined || record.updatedAt === undefined) {
+      return this.capacity;
+    }
+
+    const elapsed = Math.max(0, now - record.updatedAt);
+    return Math.min(this.capacity, record.tokens + elapsed * this.max / this.windowMs);
+  }
+
+  /**
+   * Time for an empty bucket to fill up, after which its record can be dropped
+   */
+  private bucketTtl(): number {
+    return Math.ceil(this.capacity * this.windowMs / this.max);
+  }
+}
+
+/**
+ * Call counter per UTC calendar day or month
+ */
+export class QuotaCounter {
+  constructor(
+    readonly period: 'daily' | 'monthly',
+    private readonly limit: number,
+    private readonly store: RateLimitStore
+  ) {}
+
+  /**
+   * Count a call for `key`, unless the quota is exhausted
+   */
+  async consume(key: string): Promise<QuotaUsage & { allowed: boolean }> {
+    const { start, end } = this.currentPeriod();
+    let allowed = false;
+
+    const record = await this.store.update(this.periodKey(key, start), end - Date.now(), (current) => {
+      const count = current?.count || 0;
+      allowed = count < this.limit;
+      return { count: allowed ? count + 1 : count };
+    });
+
+    return { allowed, ...this.toUsage(record.count || 0, end) };
+  }
+
+  /**
+   * Give back a call counted by consume() in the current period
+   */
+  async refund(key: string): Promise<void> {
+    const { start, end } = this.currentPeriod();
+    await this.store.update(this.periodKey(key, start), end - Date.now(), (current) => ({
+      count: Math.max(0, (current?.count || 0) - 1),
+    }));
+  }
+
+  private toUsage(used: number, resetAt: number): QuotaUsage {
+    return { limit: this.limit, used, remaining: Math.max(0, this.limit - used), resetAt };
+  }
+
+  private periodKey(key: string, start: number): string {
+    return `quota:${this.period}:${new Date(start).toISOString().slice(0, this.period === 'daily' ? 10 : 7)}:${key}`;
+  }
+
+  private currentPeriod(): { start: number; end: number } {
+    const now = new Date();
+    const year = now.getUTCFullYear();
+    const month = now.getUTCMonth();
+
+    return this.period === 'daily'
+      ? { start: Date.UTC(year, month, now.getUTCDate()), end: Date.UTC(year, month, now.getUTCDate() + 1) }
+      : { start: Date.UTC(year, month, 1), end: Date.UTC(year, month + 1, 1) };
+  }
+}
+
+/**
+ * Outcome of checking a tool call against the tool's rate limit and quotas
+ */
+export type ToolRateLimitOutcome =
+  | { allowed: true; quota: QuotaView }
+  | { allowed: false; reason: string; retryAfterMs: number };
+
+/**
+ * Rate limit and quotas of one tool; keys identify the calling principal
+ */
+export class ToolRateLimiter {
+  private readonly limiter?: RateLimiter;
+  private readonly quotas: QuotaCounter[] = [];
+
+  constructor(private readonly options: ToolRateLimitOptions, store: RateLimitStore) {
+    if (options.max !== undefined) {
+      if (options.timeWindow === undefined) {
+        throw new Error('Tool rate limit requires timeWindow together with max');
+      }
+      this.limiter = new RateLimiter({ ...options, max: options.max, timeWindow: options.timeWindow }, store);
+    }
+
+    if (options.daily !== undefined) {
+      this.quotas.push(new QuotaCounter('daily', options.daily, store));
+    }
+    if (options.monthly !== undefined) {
+      this.quotas.push(new QuotaCounter('monthly', options.monthly, store));
+    }
+  }
+
+  /**
+   * Count a call for `key` against the rate limit, then each quota. A call
+   * refused by one of them is given back to those that already counted it.
+   */
+  async consume(key: string): Promise<ToolRateLimitOutcome> {
+    const decision = this.limiter && await this.limiter.consume(`tool:${key}`);
+    if (decision && !decision.allowed) {
+      return {
+        allowed: false,
+        reason: `rate limit of ${this.options.max} calls per ${this.describeWindow()} reached`,
+        retryAfterMs: decision.retryAfterMs,
+      };
+    }
+
+    const quota: QuotaView = {};
+    const counted: QuotaCounter[] = [];
+
+    for (const counter of this.quotas) {
+      const usage = await counter.consume(key);
+      if (!usage.allowed) {
+        await Promise.all(counted.map((done) => done.refund(key)));
+        if (decision) {
+          await this.limiter!.refund(`tool:${key}`, decision);
+        }
+
+        return {
+          allowed: false,
+          reason: `${counter.period} quota of ${usage.limit} calls used up`,
+          retryAfterMs: usage.resetAt - Date.now(),
+        };
+      }
+
+      counted.push(counter);
+      quota[counter.period] = {
+        limit: usage.limit,
+        used: usage.used,
+        remaining: usage.remaining,
+        resetAt: usage.resetAt,
+      };
+    }
+
+    return { allowed: true, quota };
+  }
+
+  private describeWindow(): string {
+    const window = this.options.timeWindow!;
+    return typeof window === 'string' ? window : `${window}ms`;
+  }
+}
+
+/**
+ * Parse time window string (e.g., '1m', '1h', '1d')
+ */
+export function parseTimeWindow(timeWindow: string): number {
+  const match = timeWindow.match(/^(\d+)([smhd])$/);
+  if (!match) {
+    throw new Error(`Invalid time window format: ${timeWindow}`);
+  }
+
+  const value = parseInt(match[1], 10);
+  const unit = match[2];
+
+  const multipliers: Record<string, number> = {
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+  };
+
+  return value * multipliers[unit];
+}
+
+/**
+ * In-process store; the least recently used keys are evicted beyond `maxKeys`
+ */
+export function createMemoryRateLimitStore(options: { maxKeys?: number } = {}): RateLimitStore {
+  const maxKeys = options.maxKeys ?? 10000;
+  const entries = new Map<string, { record: RateLimitRecord; expiresAt: number }>();
+
+  return {
+    async update(key, ttlMs, fn) {
+      const now = Date.now();
+      const entry = entries.get(key);
+
+      // Re-inserting keeps the map ordered from least to most recently used
+      entries.delete(key);
+      const record = fn(entry && entry.expiresAt > now ? entry.record : undefined);
+      entries.set(key, { record, expiresAt: now + ttlMs });
+
+      for (const [oldestKey, oldest] of entries) {
+        if (entries.size <= maxKeys && oldest.expiresAt > now) {
+          break;
+        }
+        entries.delete(oldestKey);
+      }
+
+      return record;
+    },
+
+    async reset(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+/**
+ * Knex-backed store, letting replicas share limits through a database table.
+ * The table is created on first use.
+ */
+export function createKnexRateLimitStore(options: { db: Knex; table?: string }): RateLimitStore {
+  const { db } = options;
+  const table = options.table || 'mcp_rate_limits';
+  let ready: Promise<void> | undefined;
+  let prunedAt = 0;
+
+  const ensureTable = async () => {
+    if (await db.schema.hasTable(table)) {
+      return;
+    }
+
+    try {
+      await db.schema.createTable(table, (builder) => {
+        builder.string('key', 255).primary();
+        builder.text('record').notNullable();
+        builder.bigInteger('expires_at').notNullable().index();
+      });
+    } catch (error) {
+      // Another replica may have created it first
+      if (!(await db.schema.hasTable(table))) {
+        throw error;
+      }
+    }
+  };
+
+  const prepare = () => {
+    ready = ready || ensureTable().catch((error) => {
+      ready = undefined;
+      throw error;
+    });
+    return ready;
+  };
+
+  return {
+    async update(key, ttlMs, fn) {
+      await prepare();
+      const now = Date.now();
+
+      const record = await db.transaction(async (trx) => {
+        // forUpdate() can't lock a row that doesn't exist yet, so make sure one does;
+        // an expired placeholder reads as missing
+        await trx(table).insert({ key, record: '{}', expires_at: 0 }).onConflict('key').ignore();
+        const row = await trx(table).where({ key }).forUpdate().first('record', 'expires_at');
+        const current = row && Number(row.expires_at) > now
+          ? JSON.parse(row.record) as RateLimitRecord
+          : undefined;
+        const next = fn(current);
+
+        await trx(table)
+          .insert({ key, record: JSON.stringify(next), expires_at: now + ttlMs })
+          .onConflict('key')
+          .merge();
+        return next;
+      });
+
+      // Expired rows are only read as missing; sweep them once a minute
+      if (now - prunedAt > 60 * 1000) {
+        prunedAt = now;
+        await db(table).where('expires_at', '<=', now).delete();
+      }
+
+      return record;
+    },
+
+    async reset(key) {
+      await prepare();
+      await db(table).where({ key }).delete();
+    },
+  };
+}
+
+/**
+ * SQLite-backed store persisting limits to a local file across restarts
+ */
+export function createSqliteRateLimitStore(options: { filename: string; table?: string }): RateLimitStore {
+  const db = createDatabase({ client: 'sqlite3', connection: { filename: options.filename } });
+  const store = createKnexRateLimitStore({ db, table: options.table });
+
+  return {
+    ...store,
+    async close() {
+      await db.destroy();
+    },
+  };
+}
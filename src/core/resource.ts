@@ -0,0 +1,97 @@
+/**
+ * Resource definition utilities
+ */
+
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import type { ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import type {
+  CompletionCallback,
+  MCPContext,
+  MCPResourceDefinition,
+  ResourceHandler,
+  ResourceHandlerResult,
+  ResourceListEntry,
+} from '../types.js';
+
+/**
+ * Define a new MCP resource for a static URI or an RFC 6570 URI template
+ */
+export function defineResource(config: {
+  name: string;
+  uri: string;
+  description?: string;
+  mimeType?: string;
+  handler: ResourceHandler;
+  list?: (ctx: MCPContext) => Promise<ResourceListEntry[]>;
+  complete?: Record<string, CompletionCallback>;
+  metadata?: Record<string, string | number | boolean>;
+}): MCPResourceDefinition {
+  const isTemplate = UriTemplate.isTemplate(config.uri);
+
+  return {
+    name: config.name,
+    uri: isTemplate ? undefined : config.uri,
+    uriTemplate: isTemplate ? config.uri : undefined,
+    description: config.description,
+    mimeType: config.mimeType,
+    handler: config.handler,
+    list: config.list,
+    complete: config.complete,
+    metadata: config.metadata,
+  };
+}
+
+/**
+ * Find the resource serving a URI, preferring exact static matches over templates
+ */
+export function matchResource(
+  resources: MCPResourceDefinition[],
+  uri: string
+): { resource: MCPResourceDefinition; variables: Record<string, string | string[]> } | undefined {
+  const exact = resources.find((r) => r.uri === uri);
+  if (exact) {
+    return { resource: exact, variables: {} };
+  }
+
+  for (const resource of resources) {
+    if (!resource.uriTemplate) {
+      continue;
+    }
+    const variables = new UriTemplate(resource.uriTemplate).match(uri);
+    if (variables) {
+      return { resource, variables };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Normalize a resource handler result into MCP resource contents
+ */
+export function toResourceContents(
+  uri: string,
+  mimeType: string | undefined,
+  result: ResourceHandlerResult
+): ReadResourceResult['contents'] {
+  if (typeof result === 'string') {
+    return [{ uri, mimeType, text: result }];
+  }
+
+  if (result instanceof Uint8Array) {
+    return [{ uri, mimeType, blob: Buffer.from(result).toString('base64') }];
+  }
+
+  const entries = Array.isArray(result) ? result : [result];
+
+  return entries.map((entry) => {
+    const base = { uri: entry.uri || uri, mimeType: entry.mimeType || mimeType };
+    if ('text' in entry) {
+      return { ...base, text: entry.text };
+    }
+    return {
+      ...base,
+      blob: typeof entry.blob === 'string' ? entry.blob : Buffer.from(entry.blob).toString('base64'),
+    };
+  });
+}
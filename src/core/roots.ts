@@ -0,0 +1,25 @@
+/**
+ * Client root (workspace boundary) utilities
+ */
+
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { Root } from '../types.js';
+
+/**
+ * Check whether a filesystem path lies inside one of the client's file:// roots.
+ * The check is lexical; resolve symlinks first if they may point elsewhere.
+ */
+export function isPathInRoots(target: string, roots: Root[]): boolean {
+  const resolved = path.resolve(target);
+
+  return roots.some((root) => {
+    if (!root.uri.startsWith('file://')) {
+      return false;
+    }
+
+    const relative = path.relative(fileURLToPath(root.uri), resolved);
+    const escapes = relative === '..' || relative.startsWith(`..${path.sep}`);
+    return !escapes && !path.isAbsolute(relative);
+  });
+}
@@ -0,0 +1,40 @@
+/**
+ * Sampling (server-initiated LLM completion) utilities
+ */
+
+import type { CreateMessageRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { SampleOptions } from '../types.js';
+
+/**
+ * Build sampling/createMessage request params from ctx.sample() options
+ */
+export function toCreateMessageParams(options: SampleOptions): CreateMessageRequest['params'] {
+  return {
+    messages: options.messages.map((message) => {
+      const content = message.content;
+
+      if (typeof content === 'string') {
+        return { role: message.role, content: { type: 'text' as const, text: content } };
+      }
+
+      if (content.type === 'text') {
+        return { role: message.role, content };
+      }
+
+      return {
+        role: message.role,
+        content: {
+          type: content.type,
+          mimeType: content.mimeType,
+          data: typeof content.data === 'string' ? content.data : Buffer.from(content.data).toString('base64'),
+        },
+      };
+    }),
+    systemPrompt: options.systemPrompt,
+    maxTokens: options.maxTokens,
+    temperature: options.temperature,
+    stopSequences: options.stopSequences,
+    includeContext: options.includeContext,
+    modelPreferences: options.modelPreferences,
+  };
+}
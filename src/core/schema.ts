@@ -0,0 +1,482 @@
+/**
+ * JSON Schema to Zod conversion for schema-only definitions
+ */
+
+import { isDeepStrictEqual } from 'util';
+import { z } from 'zod';
+import type { JSONSchema } from '../types.js';
+
+/**
+ * Shared state while converting one schema: the root for $ref resolution and
+ * the schemas already created for each reference
+ */
+interface ConversionContext {
+  root: JSONSchema | boolean;
+  refs: Map<string, z.ZodTypeAny>;
+}
+
+/**
+ * Compile a JSON Schema (draft 2020-12) into an equivalent Zod schema, so it
+ * validates and reports errors like schemas written in Zod
+ */
+export function jsonSchemaToZod(schema: JSONSchema | boolean): z.ZodTypeAny {
+  const context: ConversionContext = { root: schema, refs: new Map() };
+  const result = convertSchema(schema, context);
+
+  // A self-referencing root is returned as its lazy reference, so converting
+  // back with zodToJsonSchema yields `$ref: '#'` again
+  return context.refs.get('#') || result;
+}
+
+/**
+ * Accept either a Zod schema or a JSON Schema, compiling the latter
+ */
+export function toZodSchema<T>(schema: z.ZodType<T> | JSONSchema): z.ZodType<T> {
+  return schema instanceof z.ZodType ? schema : (jsonSchemaToZod(schema) as z.ZodType<T>);
+}
+
+/**
+ * Convert a schema node, carrying its description
+ */
+function convertSchema(schema: JSONSchema | boolean, context: ConversionContext): z.ZodTypeAny {
+  if (schema === true) {
+    return z.unknown();
+  }
+  if (schema === false) {
+    return z.never();
+  }
+
+  const result = convertType(schema, context);
+  return schema.description ? result.describe(schema.description) : result;
+}
+
+/**
+ * Convert a schema node by its keywords
+ */
+function convertType(schema: JSONSchema, context: ConversionContext): z.ZodTypeAny {
+  if (schema.$ref !== undefined) {
+    return resolveRef(schema.$ref, context);
+  }
+
+  if ('const' in schema) {
+    return convertConst(schema.const);
+  }
+
+  if (schema.enum) {
+    return convertEnum(schema.enum);
+  }
+
+  const types = schema.type === undefined
+    ? inferTypes(schema)
+    : Array.isArray(schema.type) ? schema.type : [schema.type];
+  const nullable = types.includes('null');
+  const variants = types
+    .filter((type) => type !== 'null')
+    .map((type) => convertTyped(type, schema, context));
+
+  let result: z.ZodTypeAny | undefined = variants.length > 1
+    ? z.union(variants as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]])
+    : variants[0];
+  if (nullable) {
+    result = result ? result.nullable() : z.null();
+  }
+
+  if (schema.anyOf) {
+    result = combine(result, convertUnion(schema.anyOf, context));
+  }
+  if (schema.oneOf) {
+    result = combine(result, convertOneOf(schema.oneOf, context));
+  }
+
+  // Pattern-only entries are folded into the string schema itself
+  const allOf = (schema.allOf || []).filter((entry) => !(types.includes('string') && isPatternOnly(entry)));
+  for (const entry of allOf) {
+    result = combine(result, convertSchema(entry, context));
+  }
+
+  if (schema.not !== undefined) {
+    const excluded = convertSchema(schema.not, context);
+    result = (result || z.unknown()).refine((value) => !excluded.safeParse(value).success, {
+      message: 'Value must not match the "not" schema',
+    });
+  }
+
+  return result || z.unknown();
+}
+
+/**
+ * Convert the keywords that apply to one JSON type
+ */
+function convertTyped(type: string, schema: JSONSchema, context: ConversionContext): z.ZodTypeAny {
+  switch (type) {
+    case 'string':
+      return convertString(schema);
+    case 'number':
+    case 'integer':
+      return convertNumber(schema, type === 'integer');
+    case 'boolean':
+      return z.boolean();
+    case 'array':
+      return convertArray(schema, context);
+    case 'object':
+      return convertObject(schema, context);
+    default:
+      throw new Error(`Unsupported JSON Schema type "${type}"`);
+  }
+}
+
+/**
+ * Convert a string schema with its length, pattern and format keywords
+ */
+function convertString(schema: JSONSchema): z.ZodTypeAny {
+  let result = z.string();
+
+  if (schema.minLength !== undefined) {
+    result = result.min(schema.minLength);
+  }
+  if (schema.maxLength !== undefined) {
+    result = result.max(schema.maxLength);
+  }
+
+  const patterns = [
+    ...(schema.pattern !== undefined ? [schema.pattern] : []),
+    ...(schema.allOf || []).filter(isPatternOnly).map((entry) => (entry as JSONSchema).pattern as string),
+  ];
+  for (const pattern of patterns) {
+    result = result.regex(toRegExp(pattern));
+  }
+
+  switch (schema.format) {
+    case 'email':
+      return result.email();
+    case 'uri':
+    case 'url':
+      return result.url();
+    case 'uuid':
+      return result.uuid();
+    case 'date-time':
+      return result.datetime({ offset: true });
+    case 'date':
+      return result.date();
+    case 'time':
+      return result.time();
+    case 'duration':
+      return result.duration();
+    case 'ipv4':
+      return result.ip({ version: 'v4' });
+    case 'ipv6':
+      return result.ip({ version: 'v6' });
+    default:
+      // Unknown formats are annotations only
+      return result;
+  }
+}
+
+/**
+ * Convert a number or integer schema with its range keywords
+ */
+function convertNumber(schema: JSONSchema, integer: boolean): z.ZodTypeAny {
+  let result = z.number();
+
+  if (integer) {
+    result = result.int();
+  }
+  if (schema.minimum !== undefined) {
+    result = result.gte(schema.minimum);
+  }
+  if (schema.maximum !== undefined) {
+    result = result.lte(schema.maximum);
+  }
+  if (schema.exclusiveMinimum !== undefined) {
+    result = result.gt(schema.exclusiveMinimum);
+  }
+  if (schema.exclusiveMaximum !== undefined) {
+    result = result.lt(schema.exclusiveMaximum);
+  }
+  if (schema.multipleOf !== undefined) {
+    result = result.multipleOf(schema.multipleOf);
+  }
+
+  return result;
+}
+
+/**
+ * Convert an array schema: a tuple when prefixItems is given, a list otherwise
+ */
+function convertArray(schema: JSONSchema, context: ConversionContext): z.ZodTypeAny {
+  const { minItems, maxItems } = schema;
+
+  if (schema.prefixItems && schema.prefixItems.length > 0) {
+    const prefix = schema.prefixItems.map((item) => convertSchema(item, context));
+    const closed = schema.items === false || maxItems === prefix.length;
+    const tuple = z.tuple(prefix as [z.ZodTypeAny, ...z.ZodTypeAny[]]);
+    const result = closed
+      ? tuple
+      : tuple.rest(schema.items === undefined ? z.unknown() : convertSchema(schema.items, context));
+
+    // The tuple already enforces its own length; only looser bounds need a check
+    if ((minItems ?? 0) <= prefix.length && (closed || maxItems === undefined)) {
+      return result;
+    }
+    return result.superRefine((value, ctx) => checkLength(value.length, minItems, maxItems, ctx));
+  }
+
+  let result = z.array(schema.items === undefined ? z.unknown() : convertSchema(schema.items, context));
+  if (minItems !== undefined) {
+    result = result.min(minItems);
+  }
+  if (maxItems !== undefined) {
+    result = result.max(maxItems);
+  }
+
+  if (!schema.uniqueItems) {
+    return result;
+  }
+  return result.superRefine((value, ctx) => {
+    const index = value.findIndex((item, i) => value.findIndex((other) => isDeepStrictEqual(item, other)) !== i);
+    if (index !== -1) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index], message: 'Array items must be unique' });
+    }
+  });
+}
+
+/**
+ * Convert an object schema: a record when it only constrains values, an object otherwise
+ */
+function convertObject(schema: JSONSchema, context: ConversionContext): z.ZodTypeAny {
+  const additional = schema.additionalProperties;
+  const properties = schema.properties || {};
+  const required = new Set(schema.required || []);
+  let result: z.ZodTypeAny;
+
+  if (!schema.properties && additional !== false) {
+    // Objects without declared properties are maps of whatever they hold
+    const keys = schema.propertyNames ? convertSchema(schema.propertyNames, context) : z.string();
+    const values = typeof additional === 'object' ? convertSchema(additional, context) : z.unknown();
+    result = z.record(keys as z.ZodString, values);
+  } else {
+    const shape: z.ZodRawShape = {};
+
+    for (const [key, property] of Object.entries(properties)) {
+      const field = convertSchema(property, context);
+      if (required.has(key)) {
+        shape[key] = field;
+      } else {
+        shape[key] = property.default !== undefined ? field.default(property.default) : field.optional();
+      }
+    }
+
+    // JSON Schema allows undeclared properties unless additionalProperties says otherwise
+    const object = z.object(shape);
+    if (additional === false) {
+      result = object.strict();
+    } else if (additional === undefined || additional === true) {
+      result = object.passthrough();
+    } else {
+      result = object.catchall(convertSchema(additional, context));
+    }
+  }
+
+  // Required keys without a property schema only need to be present
+  const undeclared = [...required].filter((key) => !(key in properties));
+  const { minProperties, maxProperties } = schema;
+  if (undeclared.length === 0 && minProperties === undefined && maxProperties === undefined) {
+    return result;
+  }
+
+  return result.superRefine((value: Record<string, unknown>, ctx) => {
+    for (const key of undeclared) {
+      if (!(key in value)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: 'Required' });
+      }
+    }
+    checkLength(Object.keys(value).length, minProperties, maxProperties, ctx, 'properties');
+  });
+}
+
+/**
+ * Convert a const keyword
+ */
+function convertConst(value: unknown): z.ZodTypeAny {
+  if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+    return z.literal(value as z.Primitive);
+  }
+
+  return z.unknown().refine((candidate) => isDeepStrictEqual(candidate, value), {
+    message: `Expected ${JSON.stringify(value)}`,
+  });
+}
+
+/**
+ * Convert an enum keyword: z.enum for strings, a native enum for numbers, literals otherwise
+ */
+function convertEnum(values: (string | number | boolean | null)[]): z.ZodTypeAny {
+  const members = values.filter((value) => value !== null);
+  let result: z.ZodTypeAny;
+
+  if (members.length === 0) {
+    return z.null();
+  } else if (members.every((value) => typeof value === 'string')) {
+    result = z.enum(members as [string, ...string[]]);
+  } else if (members.every((value) => typeof value === 'string' || typeof value === 'number')) {
+    // Keys cannot collide with member values, so no member looks like a reverse mapping
+    result = z.nativeEnum(Object.fromEntries(members.map((value, index) => [`\u0000${index}`, value])) as z.EnumLike);
+  } else {
+    const literals = members.map((value) => z.literal(value as z.Primitive));
+    result = literals.length === 1
+      ? literals[0]
+      : z.union(literals as unknown as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+  }
+
+  return values.includes(null) ? result.nullable() : result;
+}
+
+/**
+ * Convert anyOf into a union
+ */
+function convertUnion(options: JSONSchema[], context: ConversionContext): z.ZodTypeAny {
+  const schemas = options.map((option) => convertSchema(option, context));
+  return schemas.length === 1
+    ? schemas[0]
+    : z.union(schemas as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+}
+
+/**
+ * Convert oneOf: a discriminated union when every option is an object tagged by
+ * the same const property, otherwise a union that rejects multiple matches
+ */
+function convertOneOf(options: JSONSchema[], context: ConversionContext): z.ZodTypeAny {
+  const schemas = options.map((option) => convertSchema(option, context));
+  if (schemas.length === 1) {
+    return schemas[0];
+  }
+
+  const discriminator = findDiscriminator(options);
+  if (discriminator && schemas.every((schema) => schema instanceof z.ZodObject)) {
+    return z.discriminatedUnion(
+      discriminator,
+      schemas as unknown as [z.ZodDiscriminatedUnionOption<string>, ...z.ZodDiscriminatedUnionOption<string>[]]
+    );
+  }
+
+  return z.union(schemas as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]).superRefine((value, ctx) => {
+    const matches = schemas.filter((schema) => schema.safeParse(value).success).length;
+    if (matches > 1) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Value matches ${matches} oneOf schemas, expected exactly one` });
+    }
+  });
+}
+
+/**
+ * Find a required property holding a distinct const in every oneOf option
+ */
+function findDiscriminator(options: JSONSchema[]): string | undefined {
+  const [first, ...rest] = options;
+  const candidates = Object.keys(first.properties || {}).filter((key) => first.required?.includes(key));
+
+  return candidates.find((key) => {
+    const values = options.map((option) => option.properties?.[key]?.const);
+    return (
+      rest.every((option) => option.required?.includes(key)) &&
+      values.every((value) => ['string', 'number', 'boolean'].includes(typeof value)) &&
+      new Set(values).size === values.length
+    );
+  });
+}
+
+/**
+ * Resolve a local $ref ('#' or a '#/...' JSON pointer) lazily, so recursive schemas terminate
+ */
+function resolveRef(ref: string, context: ConversionContext): z.ZodTypeAny {
+  const existing = context.refs.get(ref);
+  if (existing) {
+    return existing;
+  }
+
+  if (ref !== '#' && !ref.startsWith('#/')) {
+    throw new Error(`Unsupported $ref "${ref}": only local references are supported`);
+  }
+
+  let target: unknown = context.root;
+  for (const segment of ref.slice(2).split('/').filter(Boolean)) {
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+    target = typeof target === 'object' && target !== null ? (target as Record<string, unknown>)[key] : undefined;
+  }
+  if (target === undefined) {
+    throw new Error(`Unresolvable $ref "${ref}"`);
+  }
+
+  let compiled: z.ZodTypeAny | undefined;
+  const resolved = z.lazy(() => (compiled ??= convertSchema(target as JSONSchema | boolean, context)));
+  context.refs.set(ref, resolved);
+  return resolved;
+}
+
+/**
+ * Guess the type of a schema without `type` from the keywords it uses
+ */
+function inferTypes(schema: JSONSchema): string[] {
+  if (schema.properties || schema.required || schema.additionalProperties !== undefined || schema.propertyNames) {
+    return ['object'];
+  }
+  if (schema.items !== undefined || schema.prefixItems || schema.minItems !== undefined || schema.maxItems !== undefined) {
+    return ['array'];
+  }
+  if (schema.minLength !== undefined || schema.maxLength !== undefined || schema.pattern !== undefined || schema.format) {
+    return ['string'];
+  }
+  if (
+    schema.minimum !== undefined ||
+    schema.maximum !== undefined ||
+    schema.exclusiveMinimum !== undefined ||
+    schema.exclusiveMaximum !== undefined ||
+    schema.multipleOf !== undefined
+  ) {
+    return ['number'];
+  }
+  return [];
+}
+
+/**
+ * Intersect an optional base schema with another constraint
+ */
+function combine(base: z.ZodTypeAny | undefined, next: z.ZodTypeAny): z.ZodTypeAny {
+  return base ? z.intersection(base, next) : next;
+}
+
+/**
+ * Check whether an allOf entry only adds a pattern
+ */
+function isPatternOnly(entry: JSONSchema | boolean): boolean {
+  return typeof entry === 'object' && Object.keys(entry).length === 1 && typeof entry.pattern === 'string';
+}
+
+/**
+ * Compile a JSON Schema pattern (ECMA-262 with the unicode flag, falling back
+ * to legacy syntax for patterns produced from non-unicode regular expressions)
+ */
+function toRegExp(pattern: string): RegExp {
+  try {
+    return new RegExp(pattern, 'u');
+  } catch {
+    return new RegExp(pattern);
+  }
+}
+
+/**
+ * Report a count outside [minimum, maximum]
+ */
+function checkLength(
+  count: number,
+  minimum: number | undefined,
+  maximum: number | undefined,
+  ctx: z.RefinementCtx,
+  unit = 'items'
+): void {
+  if (minimum !== undefined && count < minimum) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Expected at least ${minimum} ${unit}` });
+  }
+  if (maximum !== undefined && count > maximum) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Expected at most ${maximum} ${unit}` });
+  }
+}
@@ -2,41 +2,188 @@
  * MCP Server implementation
  */
 
+import { randomUUID } from 'crypto';
+import { STATUS_CODES } from 'http';
+import type { IncomingMessage, ServerResponse, Server as NodeHttpServer } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer } from 'ws';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  CompleteRequestSchema,
   Tool,
   CallToolRequest,
+  CallToolResult,
+  ListToolsResult,
+  ListResourcesResult,
+  ListResourceTemplatesResult,
+  ReadResourceRequest,
+  ReadResourceResult,
+  ListPromptsResult,
+  GetPromptRequest,
+  GetPromptResult,
+  CompleteRequest,
+  CompleteResult,
+  CreateMessageResultSchema,
+  ElicitResultSchema,
+  ListRootsResultSchema,
+  RootsListChangedNotificationSchema,
+  ErrorCode,
+  LoggingLevel,
+  McpError,
+  SetLevelRequestSchema,
+  ServerNotification,
+  ServerRequest,
+  isInitializeRequest,
 } from '@modelcontextprotocol/sdk/types.js';
 import axios from 'axios';
+import chokidar, { FSWatcher } from 'chokidar';
 import { pino, Logger } from 'pino';
+import { z } from 'zod';
+import type { Knex } from 'knex';
 import type {
   MCPServerConfig,
   MCPServerInstance,
   MCPToolDefinition,
+  MCPResourceDefinition,
+  MCPPromptDefinition,
   MCPContext,
   MCPManifest,
   Middleware,
+  CorsOptions,
+  AuthRequest,
+  AuthContext,
+  WebSocketOptions,
+  SampleOptions,
+  SampleResult,
+  ElicitResult,
+  Root,
+  ValidationIssue,
+  PolicyAuditRecord,
 } from '../types.js';
-import { validateWithSchema, zodToJsonSchema, formatZodError } from './tool.js';
+import {
+  validateWithSchema,
+  zodToJsonSchema,
+  fromJsonValue,
+  toJsonValue,
+  formatZodError,
+  toValidationIssues,
+  renderValidationIssues,
+} from './tool.js';
+import { toContentResult } from './content.js';
+import { bindDbToSignal, bindHttpToSignal } from './abort.js';
+import { checkDatabase, createDatabase } from './database.js';
+import { matchResource, toResourceContents } from './resource.js';
+import { toPromptArguments, toPromptMessages } from './prompt.js';
+import { enumValuesFor, rankCompletions } from './completion.js';
+import { toCreateMessageParams } from './sampling.js';
+import { toRequestedSchema } from './elicitation.js';
+import { isLoggingLevelEnabled, toLoggingData, toLoggingLevel } from './logging.js';
 import { generateManifest } from './manifest.js';
+import { createMemoryRateLimitStore, ToolRateLimiter } from './ratelimit.js';
+import { evaluatePolicy, loadPolicyFile, parsePolicy } from './policy.js';
+import { startHttpListener, HttpListener, HttpRoute } from './http.js';
+import {
+  authenticateRequest,
+  authChallenge,
+  AuthFailure,
+  createAuthMiddleware,
+  createCorsMiddleware,
+  createRateLimitMiddleware,
+  isPublicPath,
+  requestOrigin,
+  RESOURCE_METADATA_PATH,
+} from './middleware.js';
+import { WebSocketServerTransport, WEBSOCKET_DEFAULTS } from './websocket.js';
+
+/**
+ * Headers used by the Streamable HTTP transport that browsers must be allowed to send
+ */
+const MCP_ALLOWED_HEADERS = [
+  'Content-Type',
+  'Authorization',
+  'Mcp-Session-Id',
+  'Mcp-Protocol-Version',
+  'Last-Event-ID',
+];
+
+/**
+ * JSON-RPC error code for unknown resources (per the MCP specification)
+ */
+const RESOURCE_NOT_FOUND = -32002;
+
+/**
+ * Extra request information passed by the MCP SDK to request handlers
+ */
+type RequestExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Live network session, served over Streamable HTTP, legacy HTTP+SSE or WebSocket
+ */
+interface HttpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport | WebSocketServerTransport;
+  /** Principal that opened the session; only it may use or resume the session */
+  principal?: string;
+}
 
 /**
  * Create a new MCP server instance
  */
 export function createMCPServer(config: MCPServerConfig): MCPServerInstance {
   const tools: MCPToolDefinition<unknown, unknown>[] = [];
+  const disabledTools = new Set<string>();
+  const toolLimiters = new Map<string, ToolRateLimiter>();
+  const toolRateLimitStore = config.toolRateLimitStore || config.rateLimit?.store || createMemoryRateLimitStore();
+  const resources: MCPResourceDefinition[] = [];
+  const prompts: MCPPromptDefinition<unknown>[] = [];
+  const subscriptions = new Map<Server, Set<string>>();
+  const rootsCache = new Map<Server, Root[]>();
+  const clientLogLevels = new Map<Server, LoggingLevel>();
+  // Request loggers whose records are mirrored to the client, keyed by child logger
+  const logMirrors = new WeakMap<Logger, (level: number, args: unknown[]) => void>();
   const middlewares: Middleware[] = config.middleware || [];
+  const authValidators: Array<(req: AuthRequest) => boolean | Promise<boolean>> = [];
+  const sessions = new Map<string, HttpSession>();
+  let listener: HttpListener | undefined;
+  let webSocketServer: WebSocketServer | undefined;
+  let policyWatcher: FSWatcher | undefined;
+  let policyAuditLogger: Logger | undefined;
   
-  // Initialize logger
-  const logger: Logger = pino({
-    level: config.logging?.level || 'info',
-    transport: config.logging?.pretty
-      ? { target: 'pino-pretty', options: { colorize: true } }
-      : undefined,
-  });
+  // Initialize logger; stdout carries the protocol in stdio mode, so logs go to stderr there
+  const transportMode = config.transport || (config.framework ? 'http' : 'stdio');
+  const logDestination = config.logging?.destination || (transportMode === 'stdio' ? 2 : 1);
+  const logger: Logger = pino(
+    {
+      level: config.logging?.level || 'info',
+      hooks: {
+        logMethod(args, method, level) {
+          logMirrors.get(this)?.(level, args);
+          // Request loggers run at trace so clients can ask for more than the server logs
+          if (level >= logger.levelVal) {
+            method.apply(this, args);
+          }
+        },
+      },
+      transport: config.logging?.pretty
+        ? { target: 'pino-pretty', options: { colorize: true, destination: logDestination } }
+        : undefined,
+    },
+    config.logging?.pretty ? undefined : pino.destination(logDestination)
+  );
 
   // Initialize HTTP client
   const http = axios.create({
@@ -46,28 +193,126 @@ export function createMCPServer(config: MCPServerConfig): MCPServerInstance {
     },
   });
 
-  // Create internal MCP server
-  const server = new Server(
-    {
-      name: config.name,
-      version: config.version || '1.0.0',
-    },
-    {
-      capabilities: {
-        tools: {},
-      },
-    }
+  // Initialize database pools (connections open lazily; checked on start)
+  const db = config.database ? createDatabase(config.database) : undefined;
+  const dbs = Object.fromEntries(
+    Object.entries(config.databases || {}).map(([name, options]) => [name, createDatabase(options)])
   );
 
+  // Load the tool access policy; a file is watched for changes once the server starts
+  let policy = typeof config.policy === 'string'
+    ? loadPolicyFile(config.policy)
+    : config.policy && parsePolicy(config.policy, 'config.policy');
+
+  // Create internal MCP server (used for stdio; HTTP sessions get their own)
+  const server = createProtocolServer();
+
   /**
    * Create context for tool handlers
    */
-  function createContext(requestId?: string): MCPContext {
+  function createContext(extra?: RequestExtra, signal?: AbortSignal, protocolServer?: Server): MCPContext {
+    const requestSignal = signal || new AbortController().signal;
+    const metaRequestId = extra?._meta?.requestId;
+    const requestId = typeof metaRequestId === 'string'
+      ? metaRequestId
+      : extra && String(extra.requestId);
+    const requestLogger = extra && protocolServer
+      ? createRequestLogger(extra, protocolServer, requestId)
+      : logger;
+
     return {
-      http,
-      db: undefined, // TODO: Initialize DB connection if configured
-      logger,
+      http: signal ? bindHttpToSignal(http, signal) : http,
+      db: db && signal ? bindDbToSignal(db, signal) : db,
+      dbs: signal
+        ? Object.fromEntries(Object.entries(dbs).map(([name, named]) => [name, bindDbToSignal(named, signal)]))
+        : dbs,
+      logger: requestLogger,
       env: process.env as Record<string, string | undefined>,
+      signal: requestSignal,
+      progress: async (progress, total, message) => {
+        const progressToken = extra?._meta?.progressToken;
+        if (!extra || progressToken === undefined) {
+          return;
+        }
+        await extra.sendNotification({
+          method: 'notifications/progress',
+          params: { progressToken, progress, total, message },
+        });
+      },
+      notifyResourceUpdated,
+      sample: async (options: SampleOptions): Promise<SampleResult> => {
+        if (!extra || !protocolServer) {
+          throw new Error('Sampling requires an active client request');
+        }
+        if (!protocolServer.getClientCapabilities()?.sampling) {
+          throw new Error('Client does not support sampling');
+        }
+
+        const result = await extra.sendRequest(
+          { method: 'sampling/createMessage', params: toCreateMessageParams(options) },
+          CreateMessageResultSchema,
+          { signal: requestSignal }
+        );
+
+        return {
+          role: result.role,
+          content: result.content,
+          model: result.model,
+          stopReason: result.stopReason,
+        };
+      },
+      elicit: async <T>(message: string, schema: z.ZodType<T>): Promise<ElicitResult<T>> => {
+        if (!extra || !protocolServer) {
+          throw new Error('Elicitation requires an active client request');
+        }
+        if (!protocolServer.getClientCapabilities()?.elicitation) {
+          throw new Error('Client does not support elicitation');
+        }
+
+        const result = await extra.sendRequest(
+          { method: 'elicitation/create', params: { message, requestedSchema: toRequestedSchema(schema) } },
+          ElicitResultSchema,
+          { signal: requestSignal }
+        );
+
+        if (result.action !== 'accept') {
+          return { action: result.action };
+        }
+
+        const validation = validateWithSchema(schema, result.content ?? {});
+        if (!validation.success) {
+          throw new Error(`Elicitation response validation failed: ${formatZodError(validation.errors)}`);
+        }
+
+        return { action: 'accept', data: validation.data };
+      },
+      roots: async (): Promise<Root[]> => {
+        if (!extra || !protocolServer) {
+          throw new Error('Roots require an active client request');
+        }
+        const capability = protocolServer.getClientCapabilities()?.roots;
+        if (!capability) {
+          throw new Error('Client does not support roots');
+        }
+
+        const cached = rootsCache.get(protocolServer);
+        if (cached) {
+          return cached;
+        }
+
+        const result = await extra.sendRequest(
+          { method: 'roots/list' },
+          ListRootsResultSchema,
+          { signal: requestSignal }
+        );
+        const roots = result.roots.map((root) => ({ uri: root.uri, name: root.name }));
+        // Without listChanged the client never reports changes, so the list can't be cached
+        if (capability.listChanged) {
+          rootsCache.set(protocolServer, roots);
+        }
+        return roots;
+      },
+      auth: toAuthContext(extra?.authInfo),
       request: requestId
         ? {
             id: requestId,
@@ -77,6 +322,35 @@ export function createMCPServer(config: MCPServerConfig): MCPServerInstance {
     };
   }
 
+  /**
+   * Create a request logger whose records are also sent to the client as
+   * notifications/message, filtered by the session's logging/setLevel (or the
+   * server level until the client sets one)
+   */
+  function createRequestLogger(extra: RequestExtra, protocolServer: Server, requestId?: string): Logger {
+    const requestLogger = logger.child({ requestId });
+    requestLogger.level = 'trace';
+
+    logMirrors.set(requestLogger, (level, args) => {
+      const loggingLevel = toLoggingLevel(level);
+      const minimum = clientLogLevels.get(protocolServer);
+      if (minimum ? !isLoggingLevelEnabled(loggingLevel, minimum) : level < logger.levelVal) {
+        return;
+      }
+
+      extra
+        .sendNotification({
+          method: 'notifications/message',
+          params: { level: loggingLevel, logger: config.name, data: toLoggingData(args) },
+        })
+        .catch(() => {
+          // Client went away; the record still reaches the server log
+        });
+    });
+
+    return requestLogger;
+  }
+
   /**
    * Register a new tool
    */
@@ -88,8 +362,111 @@ export function createMCPServer(config: MCPServerConfig): MCPServerInstance {
       throw new Error(`Tool with name "${tool.name}" already registered`);
     }
 
+    if (tool.rateLimit) {
+      toolLimiters.set(tool.name, new ToolRateLimiter(tool.rateLimit, toolRateLimitStore));
+    }
+
     tools.push(tool as MCPToolDefinition<unknown, unknown>);
     logger.info(`Registered tool: ${tool.name}`);
+    notifyToolListChanged();
+  }
+
+  /**
+   * Remove a registered tool
+   */
+  function unregisterTool(name: string): void {
+    const index = tools.findIndex((t) => t.name === name);
+    if (index === -1) {
+      throw new Error(`Tool with name "${name}" is not registered`);
+    }
+
+    tools.splice(index, 1);
+    disabledTools.delete(name);
+    toolLimiters.delete(name);
+    logger.info(`Unregistered tool: ${name}`);
+    notifyToolListChanged();
+  }
+
+  /**
+   * Make a disabled tool visible and callable again
+   */
+  function enableTool(name: string): void {
+    assertToolRegistered(name);
+    if (disabledTools.delete(name)) {
+      logger.info(`Enabled tool: ${name}`);
+      notifyToolListChanged();
+    }
+  }
+
+  /**
+   * Hide a tool from tools/list and reject calls to it, without unregistering it
+   */
+  function disableTool(name: string): void {
+    assertToolRegistered(name);
+    if (!disabledTools.has(name)) {
+      disabledTools.add(name);
+      logger.info(`Disabled tool: ${name}`);
+      notifyToolListChanged();
+    }
+  }
+
+  /**
+   * Throw if no tool with the given name is registered
+   */
+  function assertToolRegistered(name: string): void {
+    if (!tools.find((t) => t.name === name)) {
+      throw new Error(`Tool with name "${name}" is not registered`);
+    }
+  }
+
+  /**
+   * Protocol servers currently connected to a client (stdio and every network session)
+   */
+  function connectedServers(): Server[] {
+    const connected = [...sessions.values()].map((session) => session.server);
+    if (server.transport) {
+      connected.push(server);
+    }
+    return connected;
+  }
+
+  /**
+   * Tell every live session that the tool list changed
+   */
+  function notifyToolListChanged(): void {
+    for (const connected of connectedServers()) {
+      connected.sendToolListChanged().catch((error) => {
+        logger.warn(`Failed to send tools/list_changed: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }
+  }
+
+  /**
+   * Register a new resource
+   */
+  function registerResource(resource: MCPResourceDefinition): void {
+    const uri = resource.uri || resource.uriTemplate;
+
+    // Validate resource URI is unique
+    if (resources.find((r) => (r.uri || r.uriTemplate) === uri)) {
+      throw new Error(`Resource with URI "${uri}" already registered`);
+    }
+
+    resources.push(resource);
+    logger.info(`Registered resource: ${resource.name} (${uri})`);
+  }
+
+  /**
+   * Register a new prompt
+   */
+  function registerPrompt<TArgs = unknown>(prompt: MCPPromptDefinition<TArgs>): void {
+    // Validate prompt name is unique
+    if (prompts.find((p) => p.name === prompt.name)) {
+      throw new Error(`Prompt with name "${prompt.name}" already registered`);
+    }
+
+    prompts.push(prompt as MCPPromptDefinition<unknown>);
+    logger.info(`Registered prompt: ${prompt.name}`);
   }
 
   /**
@@ -102,10 +479,11 @@ export function createMCPServer(config: MCPServerConfig): MCPServerInstance {
   /**
    * Use auth middleware
    */
-  function useAuth(validator: (req: { headers: Record<string, string | string[] | undefined> }) => boolean | Promise<boolean>): void {
+  function useAuth(validator: (req: AuthRequest) => boolean | Promise<boolean>): void {
+    authValidators.push(validator);
     middlewares.push(async (req: unknown, res: unknown, next: unknown) => {
-      const reqObj = req as { headers?: Record<string, string | string[] | undefined> };
-      const isValid = await validator({ headers: reqObj.headers || {} });
+      const reqObj = req as { headers?: Record<string, string | string[] | undefined>; url?: string };
+      const isValid = isPublicPath(reqObj.url) || await validator({ headers: reqObj.headers || {} });
       if (!isValid) {
         if (typeof res === 'object' && res !== null && 'status' in res) {
           const response = res as { status: (code: number) => { json: (data: unknown) => void } };
@@ -119,12 +497,105 @@ export function createMCPServer(config: MCPServerConfig): MCPServerInstance {
     });
   }
 
+  /**
+   * Create an MCP protocol server with all request handlers installed
+   */
+  function createProtocolServer(): Server {
+    const protocolServer = new Server(
+      {
+        name: config.name,
+        version: config.version || '1.0.0',
+      },
+      {
+        capabilities: {
+          tools: { listChanged: true },
+          resources: { subscribe: true },
+          prompts: {},
+          logging: {},
+          completions: {},
+        },
+      }
+    );
+
+    // Requests in flight on this connection, aborted if the transport goes away
+    const inflight = new Set<AbortController>();
+
+    /**
+     * Run a handler with a context whose signal fires on cancellation or disconnect
+     */
+    const withContext = <TRequest, TResult>(
+      handler: (request: TRequest, ctx: MCPContext, extra: RequestExtra) => Promise<TResult>
+    ) => async (request: TRequest, extra: RequestExtra): Promise<TResult> => {
+      const controller = new AbortController();
+      const abort = () => controller.abort(extra.signal.reason);
+
+      if (extra.signal.aborted) {
+        abort();
+      } else {
+        extra.signal.addEventListener('abort', abort, { once: true });
+      }
+      inflight.add(controller);
+
+      try {
+        return await handler(request, createContext(extra, controller.signal, protocolServer), extra);
+      } finally {
+        inflight.delete(controller);
+        extra.signal.removeEventListener('abort', abort);
+      }
+    };
+
+    protocolServer.setRequestHandler(ListToolsRequestSchema, withContext(handleListTools));
+    protocolServer.setRequestHandler(CallToolRequestSchema, withContext(handleCallTool));
+    protocolServer.setRequestHandler(ListResourcesRequestSchema, withContext(handleListResources));
+    protocolServer.setRequestHandler(ListResourceTemplatesRequestSchema, handleListResourceTemplates);
+    protocolServer.setRequestHandler(ReadResourceRequestSchema, withContext(handleReadResource));
+    protocolServer.setRequestHandler(ListPromptsRequestSchema, handleListPrompts);
+    protocolServer.setRequestHandler(GetPromptRequestSchema, withContext(handleGetPrompt));
+    protocolServer.setRequestHandler(CompleteRequestSchema, withContext(handleComplete));
+
+    // Subscriptions are tracked per protocol server, i.e. per client session
+    protocolServer.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const subscribed = subscriptions.get(protocolServer) || new Set<string>();
+      subscribed.add(request.params.uri);
+      subscriptions.set(protocolServer, subscribed);
+      return {};
+    });
+    protocolServer.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.get(protocolServer)?.delete(request.params.uri);
+      return {};
+    });
+
+    // Log levels are chosen per session
+    protocolServer.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      clientLogLevels.set(protocolServer, request.params.level);
+      return {};
+    });
+
+    // Roots are cached per session until the client reports a change
+    protocolServer.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
+      rootsCache.delete(protocolServer);
+    });
+
+    protocolServer.onclose = () => {
+      subscriptions.delete(protocolServer);
+      rootsCache.delete(protocolServer);
+      clientLogLevels.delete(protocolServer);
+      for (const controller of inflight) {
+        controller.abort(new Error('Transport closed'));
+      }
+    };
+
+    return protocolServer;
+  }
+
   /**
    * Handle tool listing
    */
-  server.setRequestHandler(ListToolsRequestSchema, async () => {
-    const mcpTools: Tool[] = tools.map((tool) => {
+  async function handleListTools(request: unknown, ctx: MCPContext): Promise<ListToolsResult> {
+    const available = tools.filter((tool) => !disabledTools.has(tool.name) && missingScopes(tool, ctx).length === 0);
+    const mcpTools: Tool[] = available.map((tool) => {
       const schema = zodToJsonSchema(tool.inputSchema);
+      const outputSchema = tool.outputSchema ? zodToJsonSchema(tool.outputSchema) : undefined;
       return {
         name: tool.name,
         description: tool.description || `Execute ${tool.name}`,
@@ -133,140 +604,807 @@ export function createMCPServer(config: MCPServerConfig): MCPServerInstance {
           type: 'object' as const,
           properties: schema.properties || {},
         },
+        // MCP only allows object output schemas; other outputs are returned as text alone
+        outputSchema: outputSchema?.type === 'object'
+          ? { ...outputSchema, type: 'object' as const, properties: outputSchema.properties }
+          : undefined,
       };
     });
 
     return { tools: mcpTools };
-  });
+  }
 
   /**
    * Handle tool execution
    */
-  server.setRequestHandler(
-    CallToolRequestSchema,
-    async (request: CallToolRequest) => {
-      const { name, arguments: args } = request.params;
-      const tool = tools.find((t) => t.name === name);
+  async function handleCallTool(
+    request: CallToolRequest,
+    ctx: MCPContext,
+    extra: RequestExtra
+  ): Promise<CallToolResult> {
+    const { name, arguments: args } = request.params;
+    const tool = tools.find((t) => t.name === name && !disabledTools.has(t.name));
 
-      if (!tool) {
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: JSON.stringify({ error: `Tool "${name}" not found` }, null, 2),
-            },
-          ],
-          isError: true,
-        };
+    if (!tool) {
+      throw new McpError(ErrorCode.InvalidParams, `Tool "${name}" not found`);
+    }
+
+    // Tools hidden by missing scopes look just like unknown ones to the caller
+    const missing = missingScopes(tool, ctx);
+    if (missing.length > 0) {
+      logger.warn(`Refused tool ${name} to ${ctx.auth?.principal || 'unauthenticated caller'}: missing scope(s) ${missing.join(', ')}`);
+      throw new McpError(ErrorCode.InvalidParams, `Tool "${name}" not found`);
+    }
+
+    // Validate input, reviving the JSON stand-ins advertised for dates, bigints, sets and maps.
+    // A throwing refinement is a tool failure, not a protocol error.
+    let inputValidation: ReturnType<typeof validateWithSchema<unknown>>;
+    try {
+      inputValidation = validateWithSchema(tool.inputSchema, fromJsonValue(tool.inputSchema, args));
+    } catch (error) {
+      return toolErrorResult(name, error);
+    }
+
+    if (!inputValidation.success) {
+      const issues = toValidationIssues(inputValidation.errors, args);
+      if (config.validation?.inputErrors === 'protocol') {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid arguments for tool "${name}": ${formatZodError(inputValidation.errors)}`,
+          { issues }
+        );
       }
+      return validationErrorResult('Input validation failed', name, inputValidation.errors, issues);
+    }
+
+    const refusal = await enforcePolicy(tool, inputValidation.data, ctx);
+    if (refusal) {
+      return refusal;
+    }
 
+    // Only valid calls count against the tool's rate limit and quotas
+    const limiter = toolLimiters.get(name);
+    if (limiter) {
       try {
-        // Create context
-        const requestId = request.params._meta?.requestId;
-        const ctx = createContext(typeof requestId === 'string' ? requestId : undefined);
-
-        // Validate input
-        const inputValidation = validateWithSchema(tool.inputSchema, args);
-        if (!inputValidation.success) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(
-                  {
-                    error: 'Input validation failed',
-                    details: formatZodError(inputValidation.errors),
-                  },
-                  null,
-                  2
-                ),
-              },
-            ],
-            isError: true,
-          };
+        const outcome = await limiter.consume(`${resolvePrincipal(ctx, extra)}:${name}`);
+        if (!outcome.allowed) {
+          logger.warn(`Tool ${name} rate limited: ${outcome.reason}`);
+          return rateLimitedResult(name, outcome.reason, outcome.retryAfterMs);
         }
+        ctx = { ...ctx, quota: outcome.quota };
+      } catch (error) {
+        // An unavailable store must not make the tool unusable
+        logger.warn(`Rate limit store failed, allowing call to ${name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
 
-        let input = inputValidation.data;
+    let transaction: Knex.Transaction | undefined;
+    let rollbackOnAbort: (() => void) | undefined;
 
-        // Run pre-handlers
-        if (tool.preHandler) {
-          for (const hook of tool.preHandler) {
-            const result = await hook(ctx, input);
-            if (result && result.input) {
-              input = result.input;
-            }
-          }
+    try {
+      let input = inputValidation.data;
+
+      // Tools opting into transactions see the transaction as ctx.db
+      if (tool.transaction) {
+        if (!ctx.db) {
+          throw new Error(`Tool "${name}" requires a transaction but no database is configured`);
+        }
+        transaction = await ctx.db.transaction();
+        ctx = { ...ctx, db: transaction };
+
+        // Transaction queries bypass the signal binding of ctx.db, so cancellation
+        // ends the transaction and any later query on it rejects
+        const { signal } = ctx;
+        const active = transaction;
+        rollbackOnAbort = () => {
+          void rollbackTransaction(active, signal.reason);
+        };
+        if (signal.aborted) {
+          rollbackOnAbort();
+        } else {
+          signal.addEventListener('abort', rollbackOnAbort, { once: true });
         }
+      }
 
-        // Execute handler
-        logger.info(`Executing tool: ${name}`);
-        let output = await tool.handler({ input, ctx });
-
-        // Validate output
-        const outputValidation = validateWithSchema(tool.outputSchema, output);
-        if (!outputValidation.success) {
-          logger.error(`Output validation failed for tool: ${name}`);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(
-                  {
-                    error: 'Output validation failed',
-                    details: formatZodError(outputValidation.errors),
-                  },
-                  null,
-                  2
-                ),
-              },
-            ],
-            isError: true,
-          };
+      // Run pre-handlers
+      if (tool.preHandler) {
+        for (const hook of tool.preHandler) {
+          const result = await hook(ctx, input);
+          if (result && result.input) {
+            input = result.input;
+          }
         }
+      }
+
+      // Execute handler
+      logger.info(`Executing tool: ${name}`);
+      const result = await tool.handler({ input, ctx });
 
-        output = outputValidation.data;
+      // Content built with the `content` helpers: only its structured part is output
+      const contentResult = toContentResult(result);
+      let output = contentResult ? contentResult.structured : result;
+      const hasOutput = !contentResult || output !== undefined;
 
-        // Run post-handlers
-        if (tool.postHandler) {
-          for (const hook of tool.postHandler) {
-            const result = await hook(ctx, input, output);
-            if (result && result.output) {
-              output = result.output;
-            }
+      // Validate output; a tool declaring an output schema must return a structured part
+      const outputValidation = tool.outputSchema
+        ? validateWithSchema(tool.outputSchema, output)
+        : { success: true as const, data: output };
+      if (!outputValidation.success) {
+        logger.error(`Output validation failed for tool: ${name}`);
+        await rollbackTransaction(transaction);
+        // The model cannot fix the tool's output, so this is always reported as JSON
+        return validationErrorResult(
+          'Output validation failed',
+          undefined,
+          outputValidation.errors,
+          toValidationIssues(outputValidation.errors, output)
+        );
+      }
+
+      output = outputValidation.data;
+
+      // Run post-handlers
+      if (tool.postHandler && hasOutput) {
+        for (const hook of tool.postHandler) {
+          const result = await hook(ctx, input, output);
+          if (result && result.output) {
+            output = result.output;
           }
         }
+      }
 
-        logger.info(`Tool executed successfully: ${name}`);
+      if (transaction) {
+        // A cancelled call must not persist its writes
+        ctx.signal.throwIfAborted();
+        await transaction.commit();
+      }
 
-        return {
-          content: [
+      logger.info(`Tool executed successfully: ${name}`);
+
+      // Send Dates, bigints, Sets and Maps in the JSON form the output schema advertises
+      output = toJsonValue(output);
+      const textFallback = hasOutput
+        ? [{ type: 'text' as const, text: JSON.stringify(output, null, 2) }]
+        : [];
+
+      return {
+        content: [...(contentResult ? contentResult.content : []), ...textFallback],
+        structuredContent: isStructuredContent(output) ? output : undefined,
+      };
+    } catch (error) {
+      await rollbackTransaction(transaction);
+      return toolErrorResult(name, error);
+    } finally {
+      if (rollbackOnAbort) {
+        ctx.signal.removeEventListener('abort', rollbackOnAbort);
+      }
+    }
+  }
+
+  /**
+   * Build the isError result for a tool call that threw
+   */
+  function toolErrorResult(name: string, error: unknown): CallToolResult {
+    logger.error(`Error executing tool ${name}:`, error);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
             {
-              type: 'text',
-              text: JSON.stringify(output, null, 2),
+              error: 'Tool execution failed',
+              message: error instanceof Error ? error.message : String(error),
             },
-          ],
-        };
+            null,
+            2
+          ),
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  /**
+   * Evaluate the policy for a call and log the decision for audit. Confirmations
+   * are asked through elicitation; anything but an explicit yes refuses the call.
+   * Returns the result to send back when the call is refused.
+   */
+  async function enforcePolicy(
+    tool: MCPToolDefinition<unknown, unknown>,
+    input: unknown,
+    ctx: MCPContext
+  ): Promise<CallToolResult | undefined> {
+    if (!policy) {
+      return undefined;
+    }
+
+    const decision = evaluatePolicy(policy, { tool: tool.name, input, metadata: tool.metadata, auth: ctx.auth });
+    const record: PolicyAuditRecord = {
+      time: new Date().toISOString(),
+      tool: tool.name,
+      principal: ctx.auth?.principal,
+      effect: decision.effect,
+      rule: decision.rule,
+      allowed: decision.effect === 'allow',
+    };
+
+    if (decision.effect === 'confirm') {
+      const question = decision.message
+        || `Allow tool "${tool.name}" to run with input ${JSON.stringify(input)}?`;
+      let confirmed = false;
+
+      try {
+        const answer = await ctx.elicit(question, z.object({ confirm: z.boolean().describe('Run the tool') }));
+        confirmed = answer.action === 'accept' && answer.data.confirm;
       } catch (error) {
-        logger.error(`Error executing tool ${name}:`, error);
-        return {
-          content: [
+        logger.warn(`Could not ask to confirm tool ${tool.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      record.confirmed = confirmed;
+      record.allowed = confirmed;
+    }
+
+    await auditPolicyDecision(record);
+    if (record.allowed) {
+      return undefined;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
             {
-              type: 'text',
-              text: JSON.stringify(
-                {
-                  error: 'Tool execution failed',
-                  message: error instanceof Error ? error.message : String(error),
-                },
-                null,
-                2
-              ),
+              error: 'Denied by policy',
+              message: decision.effect === 'confirm'
+                ? `Tool "${tool.name}" requires confirmation, which was not given`
+                : decision.message || `Tool "${tool.name}" is not allowed by policy`,
+              rule: decision.rule,
             },
-          ],
-          isError: true,
-        };
+            null,
+            2
+          ),
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  /**
+   * Hand a policy decision to the audit sink; a failing sink is logged but does not block the call
+   */
+  async function auditPolicyDecision(record: PolicyAuditRecord): Promise<void> {
+    try {
+      if (config.policyAudit) {
+        await config.policyAudit(record);
+      } else {
+        // Audit records bypass logging.level, so they get a logger of their own
+        policyAuditLogger = policyAuditLogger || pino({ level: 'info' }, pino.destination(logDestination));
+        policyAuditLogger.info({ policy: record }, `Policy ${record.allowed ? 'allowed' : 'denied'} tool ${record.tool}`);
+      }
+    } catch (error) {
+      logger.error(`Policy audit failed for tool ${record.tool}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Scopes a tool requires that the caller does not hold; callers without auth hold none
+   */
+  function missingScopes(tool: MCPToolDefinition<unknown, unknown>, ctx: MCPContext): string[] {
+    const granted = ctx.auth?.scopes || [];
+    return (tool.requiredScopes || []).filter((scope) => !granted.includes(scope));
+  }
+
+  /**
+   * Identify the caller for per-principal limits: the authenticated user or
+   * client, else the session, else the single local client (stdio)
+   */
+  function resolvePrincipal(ctx: MCPContext, extra: RequestExtra): string {
+    if (ctx.auth) {
+      return `user:${ctx.auth.principal}`;
+    }
+    if (extra.authInfo?.clientId) {
+      return `client:${extra.authInfo.clientId}`;
+    }
+    return extra.sessionId ? `session:${extra.sessionId}` : 'local';
+  }
+
+  /**
+   * Build the isError result for a rate-limited call, telling the model when to retry
+   */
+  function rateLimitedResult(name: string, reason: string, retryAfterMs: number): CallToolResult {
+    const retryAfter = Math.max(1, Math.ceil(retryAfterMs / 1000));
+    const retryAt = new Date(Date.now() + retryAfterMs).toISOString();
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              error: 'Rate limit exceeded',
+              message: `Tool "${name}": ${reason}. Do not call it again before ${retryAt} (retry after ${retryAfter} seconds).`,
+              retryAfter,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  /**
+   * Build the isError result for a validation failure, rendered for the model
+   * when a tool name is given and config.validation.format asks for it
+   */
+  function validationErrorResult(
+    error: string,
+    toolName: string | undefined,
+    zodError: z.ZodError,
+    issues: ValidationIssue[]
+  ): CallToolResult {
+    const format = config.validation?.format || 'json';
+    let text: string;
+
+    if (toolName && typeof format === 'function') {
+      text = format(issues, toolName);
+    } else if (toolName && format === 'model') {
+      text = renderValidationIssues(issues, toolName);
+    } else {
+      text = JSON.stringify({ error, details: formatZodError(zodError), issues }, null, 2);
+    }
+
+    return { content: [{ type: 'text', text }], isError: true };
+  }
+
+  /**
+   * Roll back a tool call transaction that has not completed yet
+   */
+  async function rollbackTransaction(transaction?: Knex.Transaction, reason?: unknown): Promise<void> {
+    if (!transaction || transaction.isCompleted()) {
+      return;
+    }
+    try {
+      await transaction.rollback(reason);
+    } catch (error) {
+      logger.error('Transaction rollback failed:', error);
+    }
+  }
+
+  /**
+   * Handle resource listing (static resources plus entries enumerated by templates)
+   */
+  async function handleListResources(request: unknown, ctx: MCPContext): Promise<ListResourcesResult> {
+    const listed: ListResourcesResult['resources'] = [];
+
+    for (const resource of resources) {
+      if (resource.uri) {
+        listed.push({
+          uri: resource.uri,
+          name: resource.name,
+          description: resource.description,
+          mimeType: resource.mimeType,
+        });
+      } else if (resource.list) {
+        const entries = await resource.list(ctx);
+        listed.push(...entries.map((entry) => ({ mimeType: resource.mimeType, ...entry })));
       }
     }
-  );
+
+    return { resources: listed };
+  }
+
+  /**
+   * Handle resource template listing
+   */
+  async function handleListResourceTemplates(): Promise<ListResourceTemplatesResult> {
+    return {
+      resourceTemplates: resources
+        .filter((resource) => resource.uriTemplate)
+        .map((resource) => ({
+          uriTemplate: resource.uriTemplate as string,
+          name: resource.name,
+          description: resource.description,
+          mimeType: resource.mimeType,
+        })),
+    };
+  }
+
+  /**
+   * Handle resource reads
+   */
+  async function handleReadResource(request: ReadResourceRequest, ctx: MCPContext): Promise<ReadResourceResult> {
+    const { uri } = request.params;
+    const match = matchResource(resources, uri);
+
+    if (!match) {
+      throw new McpError(RESOURCE_NOT_FOUND, `Resource "${uri}" not found`, { uri });
+    }
+
+    logger.info(`Reading resource: ${uri}`);
+    const result = await match.resource.handler({ uri: new URL(uri), variables: match.variables, ctx });
+
+    return { contents: toResourceContents(uri, match.resource.mimeType, result) };
+  }
+
+  /**
+   * Handle prompt listing
+   */
+  async function handleListPrompts(): Promise<ListPromptsResult> {
+    return {
+      prompts: prompts.map((prompt) => ({
+        name: prompt.name,
+        description: prompt.description,
+        arguments: toPromptArguments(prompt.argsSchema),
+      })),
+    };
+  }
+
+  /**
+   * Handle prompt retrieval
+   */
+  async function handleGetPrompt(request: GetPromptRequest, ctx: MCPContext): Promise<GetPromptResult> {
+    const { name, arguments: args } = request.params;
+    const prompt = prompts.find((p) => p.name === name);
+
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Prompt "${name}" not found`);
+    }
+
+    const validation = validateWithSchema(prompt.argsSchema, args || {});
+    if (!validation.success) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid arguments for prompt "${name}": ${formatZodError(validation.errors)}`
+      );
+    }
+
+    logger.info(`Getting prompt: ${name}`);
+    const result = await prompt.handler({ args: validation.data, ctx });
+
+    return toPromptMessages(result);
+  }
+
+  /**
+   * Handle argument completion for prompt arguments and resource template variables
+   */
+  async function handleComplete(request: CompleteRequest, ctx: MCPContext): Promise<CompleteResult> {
+    const { ref, argument } = request.params;
+    let candidates: string[] | undefined;
+
+    if (ref.type === 'ref/prompt') {
+      const prompt = prompts.find((p) => p.name === ref.name);
+      if (!prompt) {
+        throw new McpError(ErrorCode.InvalidParams, `Prompt "${ref.name}" not found`);
+      }
+
+      const callback = prompt.complete?.[argument.name];
+      candidates = callback
+        ? await callback(argument.value, ctx)
+        : enumValuesFor(prompt.argsSchema, argument.name);
+    } else {
+      const resource = resources.find((r) => r.uriTemplate === ref.uri || r.uri === ref.uri);
+      if (!resource) {
+        throw new McpError(RESOURCE_NOT_FOUND, `Resource "${ref.uri}" not found`, { uri: ref.uri });
+      }
+
+      const callback = resource.complete?.[argument.name];
+      candidates = callback ? await callback(argument.value, ctx) : undefined;
+    }
+
+    return { completion: rankCompletions(candidates || [], argument.value) };
+  }
+
+  /**
+   * Notify sessions subscribed to a resource that its content changed
+   */
+  async function notifyResourceUpdated(uri: string): Promise<void> {
+    const notified: Promise<void>[] = [];
+
+    for (const [subscriber, subscribed] of subscriptions) {
+      if (subscribed.has(uri)) {
+        notified.push(subscriber.sendResourceUpdated({ uri }));
+      }
+    }
+
+    const results = await Promise.allSettled(notified);
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        logger.warn(`Failed to send resource update for ${uri}: ${String(result.reason)}`);
+      }
+    }
+
+    logger.debug(`Resource updated: ${uri} (${notified.length} subscriber(s))`);
+  }
+
+  /**
+   * Build the middleware stack placed in front of the HTTP transport
+   */
+  function createHttpMiddlewares(): Middleware[] {
+    const stack: Middleware[] = [];
+
+    if (config.cors) {
+      stack.push(createCorsMiddleware(resolveCorsOptions()) as Middleware);
+    }
+
+    if (config.rateLimit) {
+      stack.push(createRateLimitMiddleware(config.rateLimit, logger) as Middleware);
+    }
+
+    if (config.auth) {
+      stack.push(createAuthMiddleware(config.auth, http, logger) as Middleware);
+    }
+
+    return [...stack, ...middlewares];
+  }
+
+  /**
+   * Resolve CORS options, allowing the headers the MCP transport relies on
+   */
+  function resolveCorsOptions(): CorsOptions {
+    const options: CorsOptions = typeof config.cors === 'object' ? config.cors : {};
+    const allowedHeaders = [...MCP_ALLOWED_HEADERS];
+
+    if (config.auth?.type === 'apiKey') {
+      allowedHeaders.push(config.auth.headerName || 'x-api-key');
+    }
+
+    // Browser clients read the challenge to discover the authorization server
+    const exposedHeaders = config.auth?.type === 'bearer' || config.auth?.type === 'jwt'
+      ? ['Mcp-Session-Id', 'WWW-Authenticate']
+      : ['Mcp-Session-Id'];
+
+    return {
+      ...options,
+      allowedHeaders: options.allowedHeaders || allowedHeaders,
+      exposedHeaders: options.exposedHeaders || exposedHeaders,
+    };
+  }
+
+  /**
+   * Serve the OAuth protected resource metadata (RFC 9728) that
+   * WWW-Authenticate challenges point clients to
+   */
+  function createResourceMetadataHandler(endpoint: string): HttpRoute['handler'] {
+    return async (req, res) => {
+      const options = config.auth?.resourceMetadata || {};
+      const issuer = config.auth?.jwt?.issuer;
+      const metadata = {
+        resource: options.resource || `${requestOrigin(req)}${endpoint}`,
+        authorization_servers: options.authorizationServers || (Array.isArray(issuer) ? issuer : issuer ? [issuer] : []),
+        scopes_supported: options.scopesSupported,
+        bearer_methods_supported: ['header'],
+        resource_documentation: options.resourceDocumentation,
+      };
+
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(metadata));
+    };
+  }
+
+  /**
+   * Handle a Streamable HTTP request (POST messages, GET stream, DELETE session)
+   */
+  async function handleStreamableHttpRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    body: unknown
+  ): Promise<void> {
+    const header = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(header) ? header[0] : header;
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 404, 'Session not found');
+        return;
+      }
+      if (session.principal !== requestPrincipal(req)) {
+        sendJsonRpcError(res, 403, 'Session belongs to another principal');
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const sessionServer = createProtocolServer();
+    const principal = requestPrincipal(req);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { server: sessionServer, transport, principal });
+        logger.info(`HTTP session started: ${id}`);
+      },
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        logger.info(`HTTP session closed: ${transport.sessionId}`);
+      }
+    };
+
+    await sessionServer.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Open a legacy HTTP+SSE stream; the client posts messages to the messages endpoint
+   */
+  async function handleSseConnection(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport(config.messagesEndpoint || '/messages', res);
+    const sessionServer = createProtocolServer();
+    const sessionId = transport.sessionId;
+
+    sessions.set(sessionId, { server: sessionServer, transport, principal: requestPrincipal(req) });
+    logger.info(`SSE session started: ${sessionId}`);
+
+    transport.onclose = () => {
+      if (sessions.delete(sessionId)) {
+        logger.info(`SSE session closed: ${sessionId}`);
+      }
+    };
+
+    await sessionServer.connect(transport);
+  }
+
+  /**
+   * Route a legacy HTTP+SSE message to the session named in the query string
+   */
+  async function handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    body: unknown
+  ): Promise<void> {
+    const sessionId = new URL(req.url || '', 'http://localhost').searchParams.get('sessionId');
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, 'Session not found');
+      return;
+    }
+    if (session.principal !== requestPrincipal(req)) {
+      sendJsonRpcError(res, 403, 'Session belongs to another principal');
+      return;
+    }
+
+    await session.transport.handlePostMessage(req, res, body);
+  }
+
+  /**
+   * Resolve WebSocket options from config
+   */
+  function resolveWebSocketOptions(): Required<WebSocketOptions> {
+    const options = typeof config.websocket === 'object' ? config.websocket : {};
+    return { ...WEBSOCKET_DEFAULTS, ...options };
+  }
+
+  /**
+   * Run configured auth and useAuth() validators against a WebSocket upgrade request
+   */
+  async function authenticateUpgrade(req: IncomingMessage): Promise<AuthFailure | null> {
+    if (config.auth) {
+      const failure = await authenticateRequest(config.auth, req, http, logger);
+      if (failure) {
+        return failure;
+      }
+    }
+
+    for (const validator of authValidators) {
+      const isValid = await validator({ headers: req.headers, method: req.method, url: req.url });
+      if (!isValid) {
+        return { error: 'Unauthorized', message: 'Invalid credentials' };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Serve the WebSocket endpoint from the HTTP listener's upgrade requests
+   */
+  function attachWebSocketServer(httpServer: NodeHttpServer): void {
+    const options = resolveWebSocketOptions();
+    const wss = new WebSocketServer({ noServer: true, maxPayload: options.maxPayload });
+    const upgradeSessionIds = new WeakMap<IncomingMessage, string>();
+
+    // Announce the session ID so clients can resume after a dropped connection
+    wss.on('headers', (headers, req) => {
+      const sessionId = upgradeSessionIds.get(req);
+      if (sessionId) {
+        headers.push(`Mcp-Session-Id: ${sessionId}`);
+      }
+    });
+
+    httpServer.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      handleUpgrade(req, socket, head).catch((error) => {
+        logger.error({ error: error instanceof Error ? error.message : String(error) }, 'WebSocket upgrade failed');
+        rejectUpgrade(socket, 500, { error: 'Internal server error' });
+      });
+    });
+
+    async function handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+      const url = new URL(req.url || '', 'http://localhost');
+      if (url.pathname !== options.path) {
+        rejectUpgrade(socket, 404, { error: 'Not found' });
+        return;
+      }
+
+      const failure = await authenticateUpgrade(req);
+      if (failure) {
+        const challenge = config.auth && authChallenge(config.auth, req, failure);
+        rejectUpgrade(socket, 401, failure, challenge ? { 'WWW-Authenticate': challenge } : {});
+        return;
+      }
+      // Set by configured auth on the upgrade request
+      const authInfo = (req as IncomingMessage & { auth?: AuthInfo }).auth;
+      const principal = requestPrincipal(req);
+
+      // Session IDs are only ever issued by the server; clients can resume but not choose one
+      const requestedId = url.searchParams.get('sessionId');
+      const existing = requestedId ? sessions.get(requestedId) : undefined;
+
+      if (requestedId && !existing) {
+        rejectUpgrade(socket, 404, { error: 'Session not found' });
+        return;
+      }
+
+      if (existing && existing.principal !== principal) {
+        logger.warn(`Refused to resume WebSocket session ${requestedId}: it belongs to another principal`);
+        rejectUpgrade(socket, 403, { error: 'Session belongs to another principal' });
+        return;
+      }
+
+      if (existing && !(existing.transport instanceof WebSocketServerTransport)) {
+        rejectUpgrade(socket, 409, { error: 'Session ID belongs to another transport' });
+        return;
+      }
+
+      if (existing && (existing.transport as WebSocketServerTransport).attached) {
+        rejectUpgrade(socket, 409, { error: 'Session already connected' });
+        return;
+      }
+
+      const sessionId = existing && requestedId ? requestedId : randomUUID();
+      upgradeSessionIds.set(req, sessionId);
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        if (existing) {
+          (existing.transport as WebSocketServerTransport).attach(ws, authInfo);
+          logger.info(`WebSocket session resumed: ${sessionId}`);
+          return;
+        }
+
+        const transport = new WebSocketServerTransport(sessionId, options);
+        const sessionServer = createProtocolServer();
+
+        sessions.set(sessionId, { server: sessionServer, transport, principal });
+        transport.onclose = () => {
+          if (sessions.delete(sessionId)) {
+            logger.info(`WebSocket session closed: ${sessionId}`);
+          }
+        };
+
+        sessionServer.connect(transport).then(
+          () => {
+            transport.attach(ws, authInfo);
+            logger.info(`WebSocket session started: ${sessionId}`);
+          },
+          (error) => {
+            logger.error({ error: error instanceof Error ? error.message : String(error) }, 'WebSocket session failed to start');
+            ws.close(1011);
+          }
+        );
+      });
+    }
+
+    webSocketServer = wss;
+  }
 
   /**
    * Start the server
@@ -276,13 +1414,100 @@ export function createMCPServer(config: MCPServerConfig): MCPServerInstance {
     
     logger.info(`Starting ${config.name} MCP Server...`);
     logger.info(`Registered tools: ${tools.length}`);
-    
-    // Use stdio transport for MCP protocol
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
-    
-    logger.info(`${config.name} MCP Server running on stdio`);
-    logger.info(`Port: ${actualPort} (for HTTP endpoints if enabled)`);
+
+    if (typeof config.policy === 'string') {
+      watchPolicy(config.policy);
+    }
+
+    if (db) {
+      await checkDatabase('default', db);
+    }
+    for (const [name, named] of Object.entries(dbs)) {
+      await checkDatabase(name, named);
+    }
+    if (db || Object.keys(dbs).length > 0) {
+      logger.info('Database connections verified');
+    }
+
+    if (transportMode === 'stdio') {
+      // Use stdio transport for MCP protocol
+      const transport = new StdioServerTransport();
+      await server.connect(transport);
+
+      logger.info(`${config.name} MCP Server running on stdio`);
+      return;
+    }
+
+    const framework = config.framework || 'express';
+    const host = config.host || '0.0.0.0';
+    const endpoint = config.endpoint || '/mcp';
+    const sseEndpoint = config.sseEndpoint || '/sse';
+    const messagesEndpoint = config.messagesEndpoint || '/messages';
+    const routes: HttpRoute[] = [];
+
+    if (transportMode === 'http' || transportMode === 'both') {
+      routes.push(
+        { method: 'POST', path: endpoint, handler: handleStreamableHttpRequest },
+        { method: 'GET', path: endpoint, handler: handleStreamableHttpRequest },
+        { method: 'DELETE', path: endpoint, handler: handleStreamableHttpRequest }
+      );
+    }
+
+    if (transportMode === 'sse' || transportMode === 'both') {
+      routes.push(
+        { method: 'GET', path: sseEndpoint, handler: handleSseConnection },
+        { method: 'POST', path: messagesEndpoint, handler: handleSseMessage }
+      );
+    }
+
+    if (config.auth?.type === 'jwt' || config.auth?.resourceMetadata) {
+      const handler = createResourceMetadataHandler(endpoint);
+      routes.push(
+        { method: 'GET', path: RESOURCE_METADATA_PATH, handler },
+        // RFC 9728 location for a resource identified by the endpoint path
+        { method: 'GET', path: `${RESOURCE_METADATA_PATH}${endpoint}`, handler }
+      );
+    }
+
+    listener = await startHttpListener({
+      framework,
+      port: actualPort,
+      host,
+      middlewares: createHttpMiddlewares(),
+      routes,
+      logger,
+    });
+
+    const serveWebSocket = transportMode === 'websocket' || Boolean(config.websocket);
+    if (serveWebSocket) {
+      attachWebSocketServer(listener.server);
+    }
+
+    const baseUrl = `http://${host}:${actualPort}`;
+    if (transportMode === 'http' || transportMode === 'both') {
+      logger.info(`${config.name} MCP Server listening on ${baseUrl}${endpoint} (${framework}, Streamable HTTP)`);
+    }
+    if (transportMode === 'sse' || transportMode === 'both') {
+      logger.info(`${config.name} MCP Server listening on ${baseUrl}${sseEndpoint} (${framework}, HTTP+SSE)`);
+    }
+    if (serveWebSocket) {
+      logger.info(`${config.name} MCP Server listening on ws://${host}:${actualPort}${resolveWebSocketOptions().path} (WebSocket)`);
+    }
+  }
+
+  /**
+   * Reload the policy file when it changes; an invalid edit keeps the previous policy
+   */
+  function watchPolicy(filePath: string): void {
+    policyWatcher = chokidar.watch(filePath, { ignoreInitial: true });
+    policyWatcher.on('change', () => {
+      try {
+        policy = loadPolicyFile(filePath);
+        logger.info(`Policy reloaded from ${filePath}`);
+      } catch (error) {
+        logger.error(`Keeping previous policy: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
   }
 
   /**
@@ -290,7 +1515,36 @@ export function createMCPServer(config: MCPServerConfig): MCPServerInstance {
    */
   async function stop(): Promise<void> {
     logger.info(`Stopping ${config.name} MCP Server...`);
+
+    for (const session of sessions.values()) {
+      await session.server.close();
+    }
+    sessions.clear();
+
+    if (policyWatcher) {
+      await policyWatcher.close();
+      policyWatcher = undefined;
+    }
+
+    if (webSocketServer) {
+      webSocketServer.close();
+      webSocketServer = undefined;
+    }
+
+    if (listener) {
+      await listener.close();
+      listener = undefined;
+    }
+
     await server.close();
+
+    if (db) {
+      await db.destroy();
+    }
+    for (const named of Object.values(dbs)) {
+      await named.destroy();
+    }
+
     logger.info('Server stopped');
   }
 
@@ -298,7 +1552,7 @@ export function createMCPServer(config: MCPServerConfig): MCPServerInstance {
    * Get manifest
    */
   function getManifest(): MCPManifest {
-    return generateManifest(config, tools);
+    return generateManifest(config, tools, resources, prompts);
   }
 
   /**
@@ -308,14 +1562,97 @@ export function createMCPServer(config: MCPServerConfig): MCPServerInstance {
     return [...tools];
   }
 
+  /**
+   * Get registered resources
+   */
+  function getResources(): MCPResourceDefinition[] {
+    return [...resources];
+  }
+
+  /**
+   * Get registered prompts
+   */
+  function getPrompts(): MCPPromptDefinition[] {
+    return [...prompts];
+  }
+
   return {
     server,
     registerTool,
+    unregisterTool,
+    enableTool,
+    disableTool,
+    registerResource,
+    notifyResourceUpdated,
+    registerPrompt,
     use,
     useAuth,
     start,
     stop,
     getManifest,
     getTools,
+    getResources,
+    getPrompts,
   };
 }
+
+/**
+ * Write a JSON-RPC error response for requests rejected before reaching a transport
+ */
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null,
+  }));
+}
+
+/**
+ * Expose the caller the auth middleware attached to a request as ctx.auth
+ */
+function toAuthContext(authInfo: AuthInfo | undefined): AuthContext | undefined {
+  const caller = authInfo?.extra as { principal?: string; claims?: Record<string, unknown> } | undefined;
+  if (!authInfo || !caller?.principal) {
+    return undefined;
+  }
+
+  return { principal: caller.principal, scopes: authInfo.scopes, claims: caller.claims || {} };
+}
+
+/**
+ * Principal configured auth attached to a request, which sessions are bound to
+ */
+function requestPrincipal(req: IncomingMessage): string | undefined {
+  return toAuthContext((req as IncomingMessage & { auth?: AuthInfo }).auth)?.principal;
+}
+
+/**
+ * Refuse a WebSocket upgrade with a plain HTTP response
+ */
+function rejectUpgrade(
+  socket: Duplex,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): void {
+  if (socket.destroyed) {
+    return;
+  }
+
+  const payload = JSON.stringify(body);
+  socket.end(
+    `HTTP/1.1 ${status} ${STATUS_CODES[status]}\r\n` +
+      Object.entries(headers).map(([name, value]) => `${name}: ${value}\r\n`).join('') +
+      'Content-Type: application/json\r\n' +
+      `Content-Length: ${Buffer.byteLength(payload)}\r\n` +
+      'Connection: close\r\n\r\n' +
+      payload
+  );
+}
+
+/**
+ * Check whether a tool output can be sent as structuredContent (a JSON object)
+ */
+function isStructuredContent(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -3,145 +3,617 @@
  */
 
 import { z } from 'zod';
-import type { MCPToolDefinition, ToolHandler, PreHandlerHook, PostHandlerHook, JSONSchema } from '../types.js';
+import type {
+  MCPToolDefinition,
+  ToolHandler,
+  PreHandlerHook,
+  PostHandlerHook,
+  JSONSchema,
+  ValidationIssue,
+  ToolRateLimitOptions,
+} from '../types.js';
+import { toZodSchema } from './schema.js';
 
 /**
- * Define a new MCP tool with type-safe input/output schemas
+ * Define a new MCP tool with type-safe input/output schemas. Schemas may also be
+ * given as JSON Schema (draft 2020-12), compiled to Zod at definition time.
  */
 export function defineTool<TInput = unknown, TOutput = unknown>(config: {
   name: string;
   description?: string;
-  input: z.ZodType<TInput>;
-  output: z.ZodType<TOutput>;
+  input: z.ZodType<TInput> | JSONSchema;
+  output?: z.ZodType<TOutput> | JSONSchema;
   handler: ToolHandler<TInput, TOutput>;
   metadata?: Record<string, string | number | boolean>;
   preHandler?: PreHandlerHook<TInput>[];
   postHandler?: PostHandlerHook<TInput, TOutput>[];
+  transaction?: boolean;
+  rateLimit?: ToolRateLimitOptions;
+  requiredScopes?: string[];
 }): MCPToolDefinition<TInput, TOutput> {
   return {
     name: config.name,
     description: config.description,
-    inputSchema: config.input,
-    outputSchema: config.output,
+    inputSchema: toZodSchema(config.input),
+    outputSchema: config.output ? toZodSchema(config.output) : undefined,
     handler: config.handler,
     metadata: config.metadata,
     preHandler: config.preHandler || [],
     postHandler: config.postHandler || [],
+    transaction: config.transaction,
+    rateLimit: config.rateLimit,
+    requiredScopes: config.requiredScopes,
   };
 }
 
 /**
- * Convert Zod schema to JSON Schema for MCP protocol
+ * Shared state while converting one schema: definitions hoisted for lazy
+ * (possibly recursive) schemas and the references already assigned to them
+ */
+interface ConversionContext {
+  defs: Record<string, JSONSchema>;
+  refs: Map<z.ZodTypeAny, string>;
+}
+
+/**
+ * Convert Zod schema to JSON Schema (draft 2020-12) for MCP protocol
  */
 export function zodToJsonSchema(schema: z.ZodType<unknown>): JSONSchema {
-  // Basic conversion - can be enhanced with zod-to-json-schema library
-  const def = schema._def as { typeName?: string };
-  const zodType = def.typeName;
-  
+  const context: ConversionContext = { defs: {}, refs: new Map() };
+
+  // A recursive root is inlined and refers back to itself
+  let root: z.ZodTypeAny = schema;
+  if (root instanceof z.ZodLazy) {
+    context.refs.set(root, '#');
+    root = root._def.getter();
+  }
+
+  const result = convertSchema(root, context);
+  if (schema.description) {
+    result.description = schema.description;
+  }
+
+  return Object.keys(context.defs).length > 0 ? { ...result, $defs: context.defs } : result;
+}
+
+/**
+ * Convert a schema node, carrying its `.describe()` text
+ */
+function convertSchema(schema: z.ZodTypeAny, context: ConversionContext): JSONSchema {
+  const result = convertType(schema, context);
+
+  if (schema.description) {
+    result.description = schema.description;
+  }
+
+  return result;
+}
+
+/**
+ * Convert a schema node by Zod type
+ */
+function convertType(schema: z.ZodTypeAny, context: ConversionContext): JSONSchema {
   if (schema instanceof z.ZodObject) {
-    const shape = schema._def.shape();
-    const properties: Record<string, JSONSchema> = {};
-    const required: string[] = [];
-    
-    for (const [key, value] of Object.entries(shape)) {
-      properties[key] = zodToJsonSchema(value as z.ZodType<unknown>);
-      if (!(value instanceof z.ZodOptional)) {
-        required.push(key);
-      }
-    }
-    
-    return {
-      type: 'object',
-      properties,
-      required: required.length > 0 ? required : undefined,
-    };
+    return convertObject(schema, context);
   }
-  
+
   if (schema instanceof z.ZodString) {
+    return convertString(schema);
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    return convertNumber(schema);
+  }
+
+  if (schema instanceof z.ZodBigInt) {
+    return { type: 'integer', format: 'int64' };
+  }
+
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+
+  if (schema instanceof z.ZodDate) {
+    return { type: 'string', format: 'date-time' };
+  }
+
+  if (schema instanceof z.ZodNull) {
+    return { type: 'null' };
+  }
+
+  if (schema instanceof z.ZodNever) {
+    return { not: {} };
+  }
+
+  if (schema instanceof z.ZodArray) {
     const def = schema._def;
-    const result: JSONSchema = { type: 'string' };
-    
-    // Check for string validations
-    if (def.checks) {
-      for (const check of def.checks) {
-        if (check.kind === 'email') {
-          result.format = 'email';
-        } else if (check.kind === 'url') {
-          result.format = 'uri';
-        } else if (check.kind === 'uuid') {
-          result.format = 'uuid';
-        } else if (check.kind === 'min') {
-          result.minLength = check.value;
-        } else if (check.kind === 'max') {
-          result.maxLength = check.value;
-        }
-      }
+    const result: JSONSchema = { type: 'array', items: convertSchema(def.type, context) };
+
+    if (def.exactLength) {
+      result.minItems = def.exactLength.value;
+      result.maxItems = def.exactLength.value;
+    }
+    if (def.minLength) {
+      result.minItems = def.minLength.value;
     }
-    
+    if (def.maxLength) {
+      result.maxItems = def.maxLength.value;
+    }
+
     return result;
   }
-  
-  if (schema instanceof z.ZodNumber) {
+
+  if (schema instanceof z.ZodSet) {
     const def = schema._def;
-    const result: JSONSchema = { type: 'number' };
-    
-    if (def.checks) {
-      for (const check of def.checks) {
-        if (check.kind === 'int') {
-          result.type = 'integer';
-        } else if (check.kind === 'min') {
-          result.minimum = check.value;
-        } else if (check.kind === 'max') {
-          result.maximum = check.value;
-        }
-      }
+    const result: JSONSchema = { type: 'array', uniqueItems: true, items: convertSchema(def.valueType, context) };
+
+    if (def.minSize) {
+      result.minItems = def.minSize.value;
+    }
+    if (def.maxSize) {
+      result.maxItems = def.maxSize.value;
     }
-    
+
     return result;
   }
-  
-  if (schema instanceof z.ZodBoolean) {
-    return { type: 'boolean' };
+
+  if (schema instanceof z.ZodTuple) {
+    const items: z.ZodTypeAny[] = schema._def.items;
+    const rest: z.ZodTypeAny | null = schema._def.rest;
+
+    // maxItems rather than `items: false` bounds fixed tuples, so draft-07 validators
+    // (which ignore prefixItems) still accept them
+    return {
+      type: 'array',
+      prefixItems: items.map((item) => convertSchema(item, context)),
+      ...(rest ? { items: convertSchema(rest, context) } : { maxItems: items.length }),
+      minItems: items.length,
+    };
   }
-  
-  if (schema instanceof z.ZodArray) {
+
+  if (schema instanceof z.ZodRecord) {
+    const result: JSONSchema = {
+      type: 'object',
+      additionalProperties: convertSchema(schema._def.valueType, context),
+    };
+
+    const keys = convertSchema(schema._def.keyType, context);
+    if (Object.keys(keys).some((key) => key !== 'type')) {
+      result.propertyNames = keys;
+    }
+
+    return result;
+  }
+
+  if (schema instanceof z.ZodMap) {
+    // Maps travel as arrays of [key, value] entries
     return {
       type: 'array',
-      items: zodToJsonSchema(schema._def.type),
+      items: {
+        type: 'array',
+        prefixItems: [convertSchema(schema._def.keyType, context), convertSchema(schema._def.valueType, context)],
+        minItems: 2,
+        maxItems: 2,
+      },
     };
   }
-  
+
+  if (schema instanceof z.ZodUnion) {
+    const options: z.ZodTypeAny[] = schema._def.options;
+    return { anyOf: options.map((option) => convertSchema(option, context)) };
+  }
+
+  if (schema instanceof z.ZodDiscriminatedUnion) {
+    const options: z.ZodTypeAny[] = schema._def.options;
+    return { oneOf: options.map((option) => convertSchema(option, context)) };
+  }
+
+  if (schema instanceof z.ZodIntersection) {
+    return { allOf: [convertSchema(schema._def.left, context), convertSchema(schema._def.right, context)] };
+  }
+
   if (schema instanceof z.ZodOptional) {
-    return zodToJsonSchema(schema._def.innerType);
+    return convertSchema(schema._def.innerType, context);
   }
-  
+
   if (schema instanceof z.ZodNullable) {
-    const inner = zodToJsonSchema(schema._def.innerType);
+    const inner = convertSchema(schema._def.innerType, context);
+
+    if (inner.type === undefined) {
+      // Extend an existing union rather than nesting it
+      return inner.anyOf
+        ? { ...inner, anyOf: [...inner.anyOf, { type: 'null' }] }
+        : { anyOf: [inner, { type: 'null' }] };
+    }
+
+    const types = Array.isArray(inner.type) ? inner.type : [inner.type];
     return {
       ...inner,
-      nullable: true,
+      type: types.includes('null') ? types : [...types, 'null'],
+      ...(inner.enum && !inner.enum.includes(null) ? { enum: [...inner.enum, null] } : {}),
     };
   }
-  
+
+  if (schema instanceof z.ZodDefault) {
+    const defaultValue: unknown = schema._def.defaultValue();
+    return {
+      ...convertSchema(schema._def.innerType, context),
+      default: defaultValue instanceof Date ? defaultValue.toISOString() : defaultValue,
+    };
+  }
+
   if (schema instanceof z.ZodEnum) {
     return {
       type: 'string',
       enum: schema._def.values,
     };
   }
-  
+
+  if (schema instanceof z.ZodNativeEnum) {
+    const values = schema._def.values as Record<string, string | number>;
+    // Skip the reverse mappings TypeScript generates for numeric members
+    const members = Object.values(values).filter((value) => typeof values[value] !== 'number');
+    const types = [...new Set(members.map((value) => typeof value))];
+
+    return {
+      type: types.length === 1 ? types[0] : types,
+      enum: members,
+    };
+  }
+
   if (schema instanceof z.ZodLiteral) {
-    const literalType = typeof schema._def.value;
+    const value: unknown = schema._def.value;
+
+    if (value === null) {
+      return { type: 'null', const: null };
+    }
+
+    const literalType = typeof value;
     return {
-      type: literalType === 'string' || literalType === 'number' || literalType === 'boolean' 
-        ? literalType 
+      type: literalType === 'string' || literalType === 'number' || literalType === 'boolean'
+        ? literalType
         : 'string',
-      const: schema._def.value,
+      const: value,
     };
   }
-  
-  // Fallback for unsupported types
-  return { type: 'object' };
+
+  if (schema instanceof z.ZodLazy) {
+    return convertLazy(schema, context);
+  }
+
+  // Wrappers that only change runtime behavior describe the same input as their inner schema
+  if (schema instanceof z.ZodEffects) {
+    return convertSchema(schema._def.schema, context);
+  }
+  if (schema instanceof z.ZodCatch || schema instanceof z.ZodReadonly) {
+    return convertSchema(schema._def.innerType, context);
+  }
+  if (schema instanceof z.ZodBranded) {
+    return convertSchema(schema._def.type, context);
+  }
+  if (schema instanceof z.ZodPipeline) {
+    return convertSchema(schema._def.in, context);
+  }
+
+  // Any, unknown and types without a JSON representation accept any value
+  return {};
+}
+
+/**
+ * Convert an object schema, treating optional and defaulted fields as not required
+ */
+function convertObject(schema: z.AnyZodObject, context: ConversionContext): JSONSchema {
+  const shape = schema._def.shape() as Record<string, z.ZodTypeAny>;
+  const properties: Record<string, JSONSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, value] of Object.entries(shape)) {
+    properties[key] = convertSchema(value, context);
+    if (!acceptsUndefined(value)) {
+      required.push(key);
+    }
+  }
+
+  const result: JSONSchema = {
+    type: 'object',
+    properties,
+    required: required.length > 0 ? required : undefined,
+  };
+
+  const catchall: z.ZodTypeAny = schema._def.catchall;
+  if (!(catchall instanceof z.ZodNever)) {
+    result.additionalProperties = convertSchema(catchall, context);
+  } else if (schema._def.unknownKeys === 'strict') {
+    result.additionalProperties = false;
+  }
+
+  return result;
+}
+
+/**
+ * Convert a string schema with its format, length and pattern checks
+ */
+function convertString(schema: z.ZodString): JSONSchema {
+  const result: JSONSchema = { type: 'string' };
+  const patterns: string[] = [];
+  const formats: Partial<Record<z.ZodStringCheck['kind'], string>> = {
+    email: 'email',
+    url: 'uri',
+    uuid: 'uuid',
+    datetime: 'date-time',
+    date: 'date',
+    time: 'time',
+    duration: 'duration',
+  };
+
+  for (const check of schema._def.checks) {
+    if (formats[check.kind]) {
+      result.format = formats[check.kind];
+    } else if (check.kind === 'ip') {
+      result.format = check.version === 'v6' ? 'ipv6' : 'ipv4';
+    } else if (check.kind === 'min') {
+      result.minLength = check.value;
+    } else if (check.kind === 'max') {
+      result.maxLength = check.value;
+    } else if (check.kind === 'length') {
+      result.minLength = check.value;
+      result.maxLength = check.value;
+    } else if (check.kind === 'regex') {
+      patterns.push(check.regex.source);
+    } else if (check.kind === 'startsWith') {
+      patterns.push(`^${escapeRegExp(check.value)}`);
+    } else if (check.kind === 'endsWith') {
+      patterns.push(`${escapeRegExp(check.value)}$`);
+    } else if (check.kind === 'includes') {
+      patterns.push(escapeRegExp(check.value));
+    }
+  }
+
+  // JSON Schema allows one pattern per schema; further ones must all match too
+  if (patterns.length === 1) {
+    result.pattern = patterns[0];
+  } else if (patterns.length > 1) {
+    result.allOf = patterns.map((pattern) => ({ pattern }));
+  }
+
+  return result;
+}
+
+/**
+ * Convert a number schema with its integer and range checks
+ */
+function convertNumber(schema: z.ZodNumber): JSONSchema {
+  const result: JSONSchema = { type: 'number' };
+
+  for (const check of schema._def.checks) {
+    if (check.kind === 'int') {
+      result.type = 'integer';
+    } else if (check.kind === 'min') {
+      if (check.inclusive) {
+        result.minimum = check.value;
+      } else {
+        result.exclusiveMinimum = check.value;
+      }
+    } else if (check.kind === 'max') {
+      if (check.inclusive) {
+        result.maximum = check.value;
+      } else {
+        result.exclusiveMaximum = check.value;
+      }
+    } else if (check.kind === 'multipleOf') {
+      result.multipleOf = check.value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Hoist a lazy schema into $defs and reference it, so recursive schemas terminate
+ */
+function convertLazy(schema: z.ZodLazy<z.ZodTypeAny>, context: ConversionContext): JSONSchema {
+  const existing = context.refs.get(schema);
+  if (existing) {
+    return { $ref: existing === '#' ? '#' : `#/$defs/${existing}` };
+  }
+
+  const name = `Lazy${context.refs.size + 1}`;
+  context.refs.set(schema, name);
+  context.defs[name] = convertSchema(schema._def.getter(), context);
+
+  return { $ref: `#/$defs/${name}` };
+}
+
+/**
+ * Check whether an object field may be omitted
+ */
+function acceptsUndefined(schema: z.ZodTypeAny): boolean {
+  if (
+    schema instanceof z.ZodOptional ||
+    schema instanceof z.ZodDefault ||
+    schema instanceof z.ZodCatch ||
+    schema instanceof z.ZodUndefined ||
+    schema instanceof z.ZodVoid ||
+    schema instanceof z.ZodAny ||
+    schema instanceof z.ZodUnknown
+  ) {
+    return true;
+  }
+
+  if (schema instanceof z.ZodNullable || schema instanceof z.ZodReadonly) {
+    return acceptsUndefined(schema._def.innerType);
+  }
+  if (schema instanceof z.ZodEffects) {
+    return acceptsUndefined(schema._def.schema);
+  }
+  if (schema instanceof z.ZodBranded) {
+    return acceptsUndefined(schema._def.type);
+  }
+  if (schema instanceof z.ZodPipeline) {
+    return acceptsUndefined(schema._def.in);
+  }
+  if (schema instanceof z.ZodUnion) {
+    return (schema._def.options as z.ZodTypeAny[]).some(acceptsUndefined);
+  }
+
+  return false;
+}
+
+/**
+ * Escape text for literal use in a regular expression pattern
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Turn JSON values into the runtime types Zod expects where zodToJsonSchema
+ * advertises a JSON stand-in: date-time strings become Dates, integers bigints,
+ * arrays Sets and [key, value] entry arrays Maps. Other values pass through.
+ */
+export function fromJsonValue(schema: z.ZodTypeAny, value: unknown): unknown {
+  if (schema instanceof z.ZodDate) {
+    return typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? new Date(value) : value;
+  }
+
+  if (schema instanceof z.ZodBigInt) {
+    const integral = (typeof value === 'number' && Number.isInteger(value))
+      || (typeof value === 'string' && /^-?\d+$/.test(value));
+    return integral ? BigInt(value as number | string) : value;
+  }
+
+  if (schema instanceof z.ZodSet) {
+    return Array.isArray(value)
+      ? new Set(value.map((item) => fromJsonValue(schema._def.valueType, item)))
+      : value;
+  }
+
+  if (schema instanceof z.ZodMap) {
+    const isEntries = Array.isArray(value) && value.every((entry) => Array.isArray(entry) && entry.length === 2);
+    return isEntries
+      ? new Map((value as [unknown, unknown][]).map(([key, item]) => [
+          fromJsonValue(schema._def.keyType, key),
+          fromJsonValue(schema._def.valueType, item),
+        ]))
+      : value;
+  }
+
+  if (schema instanceof z.ZodObject) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return value;
+    }
+
+    const shape = schema._def.shape() as Record<string, z.ZodTypeAny>;
+    const catchall: z.ZodTypeAny = schema._def.catchall;
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => {
+      const field = shape[key] || (catchall instanceof z.ZodNever ? undefined : catchall);
+      return [key, field ? fromJsonValue(field, item) : item];
+    }));
+  }
+
+  if (schema instanceof z.ZodArray) {
+    return Array.isArray(value) ? value.map((item) => fromJsonValue(schema._def.type, item)) : value;
+  }
+
+  if (schema instanceof z.ZodTuple) {
+    const items: z.ZodTypeAny[] = schema._def.items;
+    const rest: z.ZodTypeAny | null = schema._def.rest;
+    return Array.isArray(value)
+      ? value.map((item, index) => {
+          const itemSchema = items[index] || rest;
+          return itemSchema ? fromJsonValue(itemSchema, item) : item;
+        })
+      : value;
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return value;
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, fromJsonValue(schema._def.valueType, item)])
+    );
+  }
+
+  // A union takes the first option its revived value satisfies
+  if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+    const options: z.ZodTypeAny[] = schema instanceof z.ZodUnion
+      ? schema._def.options
+      : [...schema._def.options];
+    for (const option of options) {
+      const revived = fromJsonValue(option, value);
+      if (option.safeParse(revived).success) {
+        return revived;
+      }
+    }
+    return value;
+  }
+
+  if (schema instanceof z.ZodIntersection) {
+    return fromJsonValue(schema._def.right, fromJsonValue(schema._def.left, value));
+  }
+
+  if (
+    schema instanceof z.ZodOptional ||
+    schema instanceof z.ZodNullable ||
+    schema instanceof z.ZodDefault ||
+    schema instanceof z.ZodCatch ||
+    schema instanceof z.ZodReadonly
+  ) {
+    return fromJsonValue(schema._def.innerType, value);
+  }
+  if (schema instanceof z.ZodEffects) {
+    return fromJsonValue(schema._def.schema, value);
+  }
+  if (schema instanceof z.ZodBranded) {
+    return fromJsonValue(schema._def.type, value);
+  }
+  if (schema instanceof z.ZodPipeline) {
+    return fromJsonValue(schema._def.in, value);
+  }
+  if (schema instanceof z.ZodLazy) {
+    return fromJsonValue(schema._def.getter(), value);
+  }
+
+  return value;
+}
+
+/**
+ * Turn runtime values into the JSON stand-ins zodToJsonSchema advertises, the
+ * inverse of fromJsonValue: Dates become date-time strings, bigints numbers
+ * (decimal strings beyond the safe integer range), Sets arrays and Maps
+ * [key, value] entry arrays. Arrays and plain objects are converted deeply.
+ */
+export function toJsonValue(value: unknown): unknown {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value.toISOString();
+  }
+
+  if (typeof value === 'bigint') {
+    const safe = value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER);
+    return safe ? Number(value) : value.toString();
+  }
+
+  if (value instanceof Set) {
+    return [...value].map(toJsonValue);
+  }
+
+  if (value instanceof Map) {
+    return [...value].map(([key, item]) => [toJsonValue(key), toJsonValue(item)]);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(toJsonValue);
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const prototype = Object.getPrototypeOf(value);
+    if (prototype === Object.prototype || prototype === null) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toJsonValue(item)]));
+    }
+  }
+
+  return value;
 }
 
 /**
@@ -173,3 +645,111 @@ export function formatZodError(error: z.ZodError): string {
     })
     .join(', ');
 }
+
+/**
+ * Convert Zod validation errors into structured issues. When the validated
+ * data is given, offending values are reported as `received`.
+ */
+export function toValidationIssues(error: z.ZodError, data?: unknown): ValidationIssue[] {
+  return error.issues.map((issue) => {
+    const path = issue.path.join('.');
+    const result: ValidationIssue = { path, code: issue.code, message: issue.message };
+    const value = data === undefined ? undefined : valueAtPath(data, issue.path);
+
+    switch (issue.code) {
+      case z.ZodIssueCode.invalid_type:
+        result.expected = issue.expected;
+        result.received = issue.received;
+        if (issue.received === 'undefined') {
+          result.hint = `Provide a value for "${path}"`;
+        }
+        break;
+      case z.ZodIssueCode.invalid_literal:
+        result.expected = JSON.stringify(issue.expected);
+        result.received = JSON.stringify(issue.received);
+        break;
+      case z.ZodIssueCode.invalid_enum_value:
+        result.expected = issue.options.map((option) => JSON.stringify(option)).join(' | ');
+        result.received = JSON.stringify(issue.received);
+        result.hint = `Use one of: ${issue.options.join(', ')}`;
+        break;
+      case z.ZodIssueCode.invalid_union_discriminator:
+        result.expected = issue.options.map((option) => JSON.stringify(option)).join(' | ');
+        result.received = describeValue(value);
+        break;
+      case z.ZodIssueCode.unrecognized_keys:
+        result.received = issue.keys.join(', ');
+        result.hint = `Remove unknown keys: ${issue.keys.join(', ')}`;
+        break;
+      case z.ZodIssueCode.too_small:
+      case z.ZodIssueCode.too_big: {
+        const bound = issue.code === z.ZodIssueCode.too_small ? issue.minimum : issue.maximum;
+        const operator = issue.exact
+          ? '='
+          : `${issue.code === z.ZodIssueCode.too_small ? '>' : '<'}${issue.inclusive ? '=' : ''}`;
+        const measured = issue.type === 'string' || issue.type === 'array' || issue.type === 'set' ? 'length ' : '';
+        result.expected = `${measured}${operator} ${String(bound)}`;
+        result.received = describeValue(value);
+        break;
+      }
+      case z.ZodIssueCode.invalid_string:
+        result.expected = typeof issue.validation === 'string' ? issue.validation : JSON.stringify(issue.validation);
+        result.received = describeValue(value);
+        break;
+      case z.ZodIssueCode.not_multiple_of:
+        result.expected = `multiple of ${String(issue.multipleOf)}`;
+        result.received = describeValue(value);
+        break;
+      case z.ZodIssueCode.invalid_union:
+        result.received = describeValue(value);
+        result.hint = 'The value must match one of the allowed shapes';
+        break;
+      default:
+        result.received = describeValue(value);
+    }
+
+    return result;
+  });
+}
+
+/**
+ * Render validation issues as instructions a model can act on when retrying
+ */
+export function renderValidationIssues(issues: ValidationIssue[], toolName: string): string {
+  const lines = issues.map((issue) => {
+    // Type and enum messages already state what was expected and received
+    const details = /received/i.test(issue.message) ? '' : [
+      issue.expected !== undefined ? `expected ${issue.expected}` : undefined,
+      issue.received !== undefined ? `received ${issue.received}` : undefined,
+    ].filter(Boolean).join(', ');
+
+    return `- ${issue.path || '(arguments)'}: ${issue.message}${details ? ` (${details})` : ''}${issue.hint ? `. ${issue.hint}.` : ''}`;
+  });
+
+  return [
+    `The arguments for tool "${toolName}" are invalid:`,
+    ...lines,
+    `Fix these arguments and call "${toolName}" again.`,
+  ].join('\n');
+}
+
+/**
+ * Look up the value at an issue path
+ */
+function valueAtPath(data: unknown, path: (string | number)[]): unknown {
+  return path.reduce<unknown>(
+    (value, key) => (typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined),
+    data
+  );
+}
+
+/**
+ * Short JSON rendering of an offending value
+ */
+function describeValue(value: unknown): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const json = JSON.stringify(value) ?? String(value);
+  return json.length > 100 ? `${json.slice(0, 97)}...` : json;
+}
@@ -0,0 +1,168 @@
+/**
+ * WebSocket transport for MCP sessions
+ */
+
+import type { WebSocket, RawData } from 'ws';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { JSONRPCMessage, JSONRPCMessageSchema, MessageExtraInfo } from '@modelcontextprotocol/sdk/types.js';
+import type { WebSocketOptions } from '../types.js';
+
+/**
+ * Default WebSocket settings
+ */
+export const WEBSOCKET_DEFAULTS: Required<WebSocketOptions> = {
+  path: '/ws',
+  maxPayload: 4 * 1024 * 1024,
+  pingInterval: 30000,
+  resumeTimeout: 60000,
+  maxBufferedMessages: 1000,
+};
+
+/**
+ * Server-side MCP transport carrying JSON-RPC frames over a WebSocket.
+ *
+ * The transport outlives individual sockets: when a socket drops, outgoing
+ * messages are buffered until a client reattaches with the same session ID
+ * or the resume timeout expires.
+ */
+export class WebSocketServerTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage, extra?: MessageExtraInfo) => void;
+
+  private socket?: WebSocket;
+  private authInfo?: AuthInfo;
+  private buffered: JSONRPCMessage[] = [];
+  private pingTimer?: NodeJS.Timeout;
+  private resumeTimer?: NodeJS.Timeout;
+  private alive = false;
+  private closed = false;
+
+  constructor(
+    readonly sessionId: string,
+    private options: Required<WebSocketOptions>
+  ) {}
+
+  async start(): Promise<void> {
+    // Sockets are attached by the upgrade handler
+  }
+
+  /**
+   * Whether a live socket is currently attached
+   */
+  get attached(): boolean {
+    return this.socket !== undefined;
+  }
+
+  /**
+   * Attach a socket to this session, flushing messages buffered while detached.
+   * Messages from the socket carry the auth info of its upgrade request.
+   */
+  attach(socket: WebSocket, authInfo?: AuthInfo): void {
+    if (this.closed) {
+      socket.close(1011, 'Session closed');
+      return;
+    }
+
+    clearTimeout(this.resumeTimer);
+    this.socket = socket;
+    this.authInfo = authInfo;
+    this.alive = true;
+
+    socket.on('message', (data) => this.handleFrame(data));
+    socket.on('pong', () => {
+      this.alive = true;
+    });
+    socket.on('error', (error) => this.onerror?.(error));
+    socket.on('close', () => this.detach(socket));
+
+    this.pingTimer = setInterval(() => {
+      if (!this.alive) {
+        socket.terminate();
+        return;
+      }
+      this.alive = false;
+      socket.ping();
+    }, this.options.pingInterval);
+
+    const pending = this.buffered;
+    this.buffered = [];
+    for (const message of pending) {
+      socket.send(JSON.stringify(message));
+    }
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this.closed) {
+      throw new Error('Transport closed');
+    }
+
+    if (this.socket && this.socket.readyState === this.socket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+      return;
+    }
+
+    this.buffered.push(message);
+    if (this.buffered.length > this.options.maxBufferedMessages) {
+      this.buffered.shift();
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+
+    this.closed = true;
+    clearInterval(this.pingTimer);
+    clearTimeout(this.resumeTimer);
+    this.buffered = [];
+
+    const socket = this.socket;
+    this.socket = undefined;
+    socket?.close(1000);
+
+    this.onclose?.();
+  }
+
+  /**
+   * Parse an inbound frame and hand it to the protocol layer
+   */
+  private handleFrame(data: RawData): void {
+    let message: JSONRPCMessage;
+    try {
+      message = JSONRPCMessageSchema.parse(JSON.parse(data.toString()));
+    } catch (error) {
+      this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+
+    this.onmessage?.(message, { authInfo: this.authInfo });
+  }
+
+  /**
+   * Drop a socket, keeping the session resumable until the timeout expires
+   */
+  private detach(socket: WebSocket): void {
+    if (this.socket !== socket) {
+      return;
+    }
+
+    clearInterval(this.pingTimer);
+    this.socket = undefined;
+
+    if (this.closed) {
+      return;
+    }
+
+    if (this.options.resumeTimeout <= 0) {
+      void this.close();
+      return;
+    }
+
+    this.resumeTimer = setTimeout(() => {
+      void this.close();
+    }, this.options.resumeTimeout);
+  }
+}
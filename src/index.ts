@@ -6,7 +6,25 @@
 
 // Core exports
 export { createMCPServer } from './core/server.js';
-export { defineTool, zodToJsonSchema, validateWithSchema, formatZodError } from './core/tool.js';
+export {
+  defineTool,
+  zodToJsonSchema,
+  validateWithSchema,
+  formatZodError,
+  toValidationIssues,
+  renderValidationIssues,
+} from './core/tool.js';
+export { jsonSchemaToZod } from './core/schema.js';
+export { defineResource } from './core/resource.js';
+export { definePrompt } from './core/prompt.js';
+export { content } from './core/content.js';
+export { isPathInRoots } from './core/roots.js';
+export {
+  createMemoryRateLimitStore,
+  createKnexRateLimitStore,
+  createSqliteRateLimitStore,
+} from './core/ratelimit.js';
+export { evaluatePolicy, loadPolicyFile, parsePolicy } from './core/policy.js';
 export { generateManifest, generateMarkdownDocs, generateOpenAPISpec } from './core/manifest.js';
 
 // Middleware exports
@@ -23,21 +41,57 @@ export {
 export type {
   MCPContext,
   ToolHandler,
+  ToolContent,
+  ToolContentResult,
   MCPToolDefinition,
+  MCPResourceDefinition,
+  ResourceHandler,
+  ResourceHandlerResult,
+  ResourceContent,
+  ResourceListEntry,
+  MCPPromptDefinition,
+  PromptHandler,
+  PromptMessage,
+  PromptContent,
+  CompletionCallback,
+  SamplingMessage,
+  SampleOptions,
+  SampleResult,
+  ElicitResult,
+  Root,
   MCPServerConfig,
   MCPServerInstance,
   MCPManifest,
   PreHandlerHook,
   PostHandlerHook,
   AuthOptions,
+  AuthContext,
+  AuthIdentity,
+  JwtOptions,
+  ResourceMetadataOptions,
   RateLimitOptions,
+  RateLimitRecord,
+  RateLimitStore,
+  ToolRateLimitOptions,
+  QuotaUsage,
+  QuotaView,
+  PolicyDocument,
+  PolicyEffect,
+  PolicyRule,
+  PolicyCondition,
+  PolicyCall,
+  PolicyDecision,
+  PolicyAuditRecord,
   CorsOptions,
+  WebSocketOptions,
   LoggingOptions,
   DatabaseOptions,
   Middleware,
   OpenAPIGenerateOptions,
   DBGenerateOptions,
   ValidationResult,
+  ValidationIssue,
+  ValidationOptions,
 } from './types.js';
 
 // Re-export Zod for convenience
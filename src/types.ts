@@ -10,6 +10,7 @@ import type { FastifyRequest, FastifyReply } from 'fastify';
 import type { AxiosInstance } from 'axios';
 import type { Knex } from 'knex';
 import type { Logger } from 'pino';
+import type { JsonWebKey } from 'crypto';
 
 /**
  * Context object passed to tool handlers
@@ -19,10 +20,28 @@ export interface MCPContext {
   http: AxiosInstance;
   /** Database connection (if configured) */
   db?: Knex;
+  /** Named database connections from config.databases */
+  dbs: Record<string, Knex>;
   /** Logger instance */
   logger: Logger;
   /** Environment variables */
   env: Record<string, string | undefined>;
+  /** Aborted when the client cancels the request or its transport disconnects */
+  signal: AbortSignal;
+  /** Report progress to the client (no-op unless the request carried a progressToken) */
+  progress: (progress: number, total?: number, message?: string) => Promise<void>;
+  /** Notify sessions subscribed to a resource URI that its content changed */
+  notifyResourceUpdated: (uri: string) => Promise<void>;
+  /** Ask the connected client to run an LLM completion (requires the client's sampling capability) */
+  sample: (options: SampleOptions) => Promise<SampleResult>;
+  /** Ask the user for structured input through the client (requires the client's elicitation capability) */
+  elicit: <T>(message: string, schema: z.ZodType<T>) => Promise<ElicitResult<T>>;
+  /** Workspace roots exposed by the client (requires the client's roots capability) */
+  roots: () => Promise<Root[]>;
+  /** Quota usage of the calling principal, in tools with daily or monthly quotas */
+  quota?: QuotaView;
+  /** Authenticated caller (undefined without auth, e.g. over stdio) */
+  auth?: AuthContext;
   /** Request metadata */
   request?: {
     id: string;
@@ -32,10 +51,96 @@ export interface MCPContext {
 }
 
 /**
- * Tool handler function signature
+ * Content block in a tool result
+ */
+export type ToolContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string }
+  | { type: 'audio'; data: string; mimeType: string }
+  | {
+      type: 'resource';
+      resource:
+        | { uri: string; mimeType?: string; text: string }
+        | { uri: string; mimeType?: string; blob: string };
+    }
+  | { type: 'resource_link'; uri: string; name: string; description?: string; mimeType?: string };
+
+/**
+ * Tool result made of content blocks, with optional structured output
+ */
+export interface ToolContentResult<TOutput = unknown> {
+  content: ToolContent[];
+  /** Structured output, validated against the tool's output schema */
+  structured?: TOutput;
+}
+
+/**
+ * Message sent to the client's model; string content is sent as a text block
+ */
+export interface SamplingMessage {
+  role: 'user' | 'assistant';
+  content:
+    | string
+    | { type: 'text'; text: string }
+    | { type: 'image' | 'audio'; data: string | Uint8Array; mimeType: string };
+}
+
+/**
+ * Options for ctx.sample()
+ */
+export interface SampleOptions {
+  messages: SamplingMessage[];
+  systemPrompt?: string;
+  maxTokens: number;
+  temperature?: number;
+  stopSequences?: string[];
+  /** Which MCP server context the client should include */
+  includeContext?: 'none' | 'thisServer' | 'allServers';
+  modelPreferences?: {
+    hints?: Array<{ name?: string }>;
+    costPriority?: number;
+    speedPriority?: number;
+    intelligencePriority?: number;
+  };
+}
+
+/**
+ * Completion returned by the client's model
+ */
+export interface SampleResult {
+  role: 'user' | 'assistant';
+  content:
+    | { type: 'text'; text: string }
+    | { type: 'image' | 'audio'; data: string; mimeType: string };
+  /** Model that produced the completion */
+  model: string;
+  stopReason?: string;
+}
+
+/**
+ * Workspace boundary exposed by the client
+ */
+export interface Root {
+  /** Root URI, currently always file:// */
+  uri: string;
+  name?: string;
+}
+
+/**
+ * User response to ctx.elicit(); data is only present when the user accepted
+ */
+export type ElicitResult<T> =
+  | { action: 'accept'; data: T }
+  | { action: 'decline' | 'cancel'; data?: undefined };
+
+/**
+ * Tool handler function signature. Handlers return plain output, or content
+ * built with the `content` helpers.
  */
 export interface ToolHandler<TInput = unknown, TOutput = unknown> {
-  (params: { input: TInput; ctx: MCPContext }): Promise<TOutput>;
+  (params: { input: TInput; ctx: MCPContext }): Promise<
+    TOutput | ToolContent | ToolContent[] | ToolContentResult<TOutput>
+  >;
 }
 
 /**
@@ -62,8 +167,8 @@ export interface MCPToolDefinition<TInput = unknown, TOutput = unknown> {
   description?: string;
   /** Input validation schema (Zod) */
   inputSchema: z.ZodType<TInput>;
-  /** Output validation schema (Zod) */
-  outputSchema: z.ZodType<TOutput>;
+  /** Output validation schema (Zod); optional for tools that only return content blocks */
+  outputSchema?: z.ZodType<TOutput>;
   /** Tool handler function */
   handler: ToolHandler<TInput, TOutput>;
   /** Additional metadata */
@@ -72,6 +177,121 @@ export interface MCPToolDefinition<TInput = unknown, TOutput = unknown> {
   preHandler?: PreHandlerHook<TInput>[];
   /** Post-handler hooks */
   postHandler?: PostHandlerHook<TInput, TOutput>[];
+  /** Run the call in a database transaction exposed as ctx.db, committed only if the call succeeds */
+  transaction?: boolean;
+  /** Per-principal rate limit and quotas for calls to this tool */
+  rateLimit?: ToolRateLimitOptions;
+  /** Scopes the caller must hold; the tool is hidden from and refused to other callers */
+  requiredScopes?: string[];
+}
+
+/**
+ * Content of a resource: text, or binary data sent base64-encoded as a blob
+ */
+export type ResourceContent =
+  | { uri?: string; mimeType?: string; text: string }
+  | { uri?: string; mimeType?: string; blob: string | Uint8Array };
+
+/**
+ * Value a resource handler may return: a string (text), binary data (blob),
+ * or one or more explicit content entries
+ */
+export type ResourceHandlerResult = string | Uint8Array | ResourceContent | ResourceContent[];
+
+/**
+ * Completion callback for a prompt argument or resource template variable
+ */
+export interface CompletionCallback {
+  (value: string, ctx: MCPContext): Promise<string[]> | string[];
+}
+
+/**
+ * Resource handler function signature
+ */
+export interface ResourceHandler {
+  (params: {
+    uri: URL;
+    /** Variables extracted from the URI template (empty for static resources) */
+    variables: Record<string, string | string[]>;
+    ctx: MCPContext;
+  }): Promise<ResourceHandlerResult>;
+}
+
+/**
+ * Concrete resource entry advertised in resources/list
+ */
+export interface ResourceListEntry {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * Resource definition for a static URI or an RFC 6570 URI template
+ */
+export interface MCPResourceDefinition {
+  /** Resource name */
+  name: string;
+  /** Static resource URI (set when the URI is not a template) */
+  uri?: string;
+  /** URI template, e.g. 'db://tables/{name}' */
+  uriTemplate?: string;
+  /** Human-readable description */
+  description?: string;
+  /** MIME type of the resource content */
+  mimeType?: string;
+  /** Resource handler function */
+  handler: ResourceHandler;
+  /** Enumerate concrete resources matching a template for resources/list */
+  list?: (ctx: MCPContext) => Promise<ResourceListEntry[]>;
+  /** Completion callbacks keyed by template variable name */
+  complete?: Record<string, CompletionCallback>;
+  /** Additional metadata */
+  metadata?: Record<string, string | number | boolean>;
+}
+
+/**
+ * Content of a prompt message
+ */
+export type PromptContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string | Uint8Array; mimeType: string }
+  | { type: 'resource'; resource: ResourceContent & { uri: string } };
+
+/**
+ * Prompt message; string content is sent as a text block
+ */
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  content: string | PromptContent;
+}
+
+/**
+ * Prompt handler function signature
+ */
+export interface PromptHandler<TArgs = unknown> {
+  (params: { args: TArgs; ctx: MCPContext }): Promise<
+    PromptMessage[] | { description?: string; messages: PromptMessage[] }
+  >;
+}
+
+/**
+ * Prompt definition with a Zod schema for its arguments
+ */
+export interface MCPPromptDefinition<TArgs = unknown> {
+  /** Prompt name (must be unique) */
+  name: string;
+  /** Human-readable description */
+  description?: string;
+  /** Argument validation schema (Zod); MCP clients send arguments as strings */
+  argsSchema: z.ZodType<TArgs>;
+  /** Prompt handler function */
+  handler: PromptHandler<TArgs>;
+  /** Completion callbacks keyed by argument name (enum arguments complete automatically) */
+  complete?: Record<string, CompletionCallback>;
+  /** Additional metadata */
+  metadata?: Record<string, string | number | boolean>;
 }
 
 /**
@@ -84,24 +304,53 @@ export interface MCPServerConfig {
   version?: string;
   /** Server description */
   description?: string;
-  /** Server framework ('fastify' | 'express') */
+  /** Server framework ('fastify' | 'express') used for HTTP transports (default: 'express') */
   framework?: 'fastify' | 'express';
+  /**
+   * Transport served by start(): 'http' (Streamable HTTP), 'sse' (legacy HTTP+SSE),
+   * 'both', 'websocket', or 'stdio'. Defaults to 'http' when a framework is set,
+   * otherwise 'stdio'.
+   */
+  transport?: 'stdio' | 'http' | 'sse' | 'both' | 'websocket';
   /** Port number (default: 3000) */
   port?: number;
+  /** Host to bind the HTTP listener to (default: '0.0.0.0') */
+  host?: string;
+  /** Path of the Streamable HTTP endpoint (default: '/mcp') */
+  endpoint?: string;
+  /** Path of the legacy SSE stream endpoint (default: '/sse') */
+  sseEndpoint?: string;
+  /** Path of the legacy SSE messages endpoint (default: '/messages') */
+  messagesEndpoint?: string;
+  /** WebSocket endpoint settings; also serves WebSocket alongside HTTP transports when set */
+  websocket?: boolean | WebSocketOptions;
   /** Enable CORS */
   cors?: boolean | CorsOptions;
   /** Rate limiting configuration */
   rateLimit?: RateLimitOptions;
+  /** Store for per-tool rate limits and quotas (default: rateLimit.store, else in-memory) */
+  toolRateLimitStore?: RateLimitStore;
   /** Authentication configuration */
   auth?: AuthOptions;
   /** Logging configuration */
   logging?: LoggingOptions;
-  /** Database configuration */
+  /** Database configuration (exposed as ctx.db) */
   database?: DatabaseOptions;
+  /** Additional named databases (exposed as ctx.dbs[name]) */
+  databases?: Record<string, DatabaseOptions>;
   /** Metrics endpoint */
   metrics?: boolean;
   /** Additional middleware */
   middleware?: Middleware[];
+  /** Validation error reporting */
+  validation?: ValidationOptions;
+  /** Tool access policy: a JSON/YAML file path (reloaded when it changes) or an inline document */
+  policy?: string | PolicyDocument;
+  /**
+   * Receives every policy decision for audit (default: JSON lines on the log
+   * destination, written whatever `logging.level` is)
+   */
+  policyAudit?: (record: PolicyAuditRecord) => void | Promise<void>;
 }
 
 /**
@@ -116,26 +365,289 @@ export interface CorsOptions {
   maxAge?: number;
 }
 
+/**
+ * WebSocket transport configuration
+ */
+export interface WebSocketOptions {
+  /** Path of the WebSocket endpoint (default: '/ws') */
+  path?: string;
+  /** Maximum inbound frame size in bytes (default: 4MB) */
+  maxPayload?: number;
+  /** Keepalive ping interval in ms (default: 30000) */
+  pingInterval?: number;
+  /** How long a dropped session can be resumed, in ms (default: 60000) */
+  resumeTimeout?: number;
+  /** Maximum outbound messages buffered while a session is disconnected (default: 1000) */
+  maxBufferedMessages?: number;
+}
+
 /**
  * Rate limiting configuration
  */
 export interface RateLimitOptions {
+  /** Requests allowed per time window (the refill rate in token-bucket mode) */
   max: number;
   timeWindow: number | string;
+  /** Limiting algorithm (default: 'sliding-window') */
+  algorithm?: 'sliding-window' | 'token-bucket';
+  /** Token-bucket capacity, i.e. the largest burst allowed (default: max) */
+  burst?: number;
+  /** Where limiter state is kept (default: an in-memory LRU store) */
+  store?: RateLimitStore;
+  /** Send X-RateLimit-* and Retry-After headers (default: true) */
+  headers?: boolean;
+  /** Don't count requests answered with a status below 400 */
   skipSuccessfulRequests?: boolean;
+  /** Don't count requests answered with a status of 400 or above */
   skipFailedRequests?: boolean;
 }
 
+/**
+ * Per-tool rate limit and quotas, counted separately for each principal
+ */
+export interface ToolRateLimitOptions {
+  /** Calls allowed per time window */
+  max?: number;
+  timeWindow?: number | string;
+  /** Limiting algorithm (default: 'sliding-window') */
+  algorithm?: 'sliding-window' | 'token-bucket';
+  /** Token-bucket capacity (default: max) */
+  burst?: number;
+  /** Calls allowed per UTC calendar day */
+  daily?: number;
+  /** Calls allowed per UTC calendar month */
+  monthly?: number;
+}
+
+/**
+ * Usage of one quota period
+ */
+export interface QuotaUsage {
+  limit: number;
+  used: number;
+  remaining: number;
+  /** When the period ends and the quota resets (epoch ms) */
+  resetAt: number;
+}
+
+/**
+ * Quota usage of the current principal for the current tool
+ */
+export interface QuotaView {
+  daily?: QuotaUsage;
+  monthly?: QuotaUsage;
+}
+
+/**
+ * Tool access policy evaluated before every tool call; the first matching rule decides
+ */
+export interface PolicyDocument {
+  /** Outcome when no rule matches (default: 'allow') */
+  default?: PolicyEffect;
+  rules: PolicyRule[];
+}
+
+/**
+ * Policy outcome: run the call, refuse it, or ask the user first
+ */
+export type PolicyEffect = 'allow' | 'deny' | 'confirm';
+
+/**
+ * Policy rule; it matches a call when every condition it sets holds
+ */
+export interface PolicyRule {
+  /** Names the rule in audit logs (default: its position, e.g. rules[2]) */
+  id?: string;
+  effect: PolicyEffect;
+  /** Tool name globs (`*` and `?` wildcards) */
+  tools?: string | string[];
+  /** Caller conditions; never met by unauthenticated callers */
+  principal?: {
+    /** Principal globs */
+    ids?: string | string[];
+    /** Scopes the caller must all hold */
+    scopes?: string[];
+    /** Claim values; an array lists accepted values */
+    claims?: Record<string, unknown>;
+  };
+  /** Tool metadata values */
+  metadata?: Record<string, string | number | boolean>;
+  /** Time window, as HH:MM times and weekdays; a window with after > before spans midnight */
+  time?: {
+    after?: string;
+    before?: string;
+    days?: Array<'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun'>;
+    /** IANA time zone (default: UTC) */
+    timezone?: string;
+  };
+  /** Predicates on the validated tool input */
+  input?: PolicyCondition[];
+  /** Reason given on deny, or the question asked on confirm */
+  message?: string;
+}
+
+/**
+ * Predicate on one input field; every operator given must hold
+ */
+export interface PolicyCondition {
+  /** Dot-separated path into the input, e.g. 'filter.id' */
+  field: string;
+  eq?: unknown;
+  ne?: unknown;
+  lt?: number | string;
+  lte?: number | string;
+  gt?: number | string;
+  gte?: number | string;
+  in?: unknown[];
+  nin?: unknown[];
+  /** Regular expression the value must match */
+  matches?: string;
+  exists?: boolean;
+}
+
+/**
+ * Tool call as seen by the policy
+ */
+export interface PolicyCall {
+  tool: string;
+  input?: unknown;
+  metadata?: Record<string, string | number | boolean>;
+  auth?: AuthContext;
+}
+
+/**
+ * Result of evaluating a policy for a call
+ */
+export interface PolicyDecision {
+  effect: PolicyEffect;
+  /** Matching rule, or undefined when the default applied */
+  rule?: string;
+  message?: string;
+}
+
+/**
+ * Policy decision as recorded for audit
+ */
+export interface PolicyAuditRecord {
+  /** ISO timestamp of the decision */
+  time: string;
+  tool: string;
+  /** Authenticated caller, if any */
+  principal?: string;
+  effect: PolicyEffect;
+  rule?: string;
+  /** Whether the user agreed, for 'confirm' decisions */
+  confirmed?: boolean;
+  /** Whether the call went ahead */
+  allowed: boolean;
+}
+
+/**
+ * Limiter state persisted per key
+ */
+export interface RateLimitRecord {
+  /** Request timestamps inside the window (sliding window) */
+  hits?: number[];
+  /** Tokens left in the bucket (token bucket) */
+  tokens?: number;
+  /** Time the bucket was last refilled (token bucket) */
+  updatedAt?: number;
+  /** Calls counted in the current period (quotas) */
+  count?: number;
+}
+
+/**
+ * Backing store for rate limiter state
+ */
+export interface RateLimitStore {
+  /**
+   * Atomically read, transform and save the record for a key. The record
+   * expires after `ttlMs` without updates; expired records read as undefined.
+   */
+  update(
+    key: string,
+    ttlMs: number,
+    fn: (record: RateLimitRecord | undefined) => RateLimitRecord
+  ): Promise<RateLimitRecord>;
+  /** Forget the record for a key */
+  reset(key: string): Promise<void>;
+  /** Release resources held by the store */
+  close?(): Promise<void>;
+}
+
 /**
  * Authentication configuration
  */
 export interface AuthOptions {
   /** Auth type */
-  type: 'apiKey' | 'bearer' | 'custom';
+  type: 'apiKey' | 'bearer' | 'custom' | 'jwt';
   /** API key header name (for apiKey type) */
   headerName?: string;
-  /** Validation function */
-  validate?: (token: string, ctx: MCPContext) => Promise<boolean>;
+  /**
+   * Validation function (for jwt type, an extra check after the token is verified).
+   * Return an identity instead of true to name the principal and grant scopes.
+   */
+  validate?: (token: string, ctx: MCPContext) => Promise<boolean | AuthIdentity>;
+  /** Token verification (for jwt type) */
+  jwt?: JwtOptions;
+  /** OAuth protected resource metadata (for bearer and jwt types) */
+  resourceMetadata?: ResourceMetadataOptions;
+}
+
+/**
+ * JWT verification settings
+ */
+export interface JwtOptions {
+  /** Path to a JWKS file ({ "keys": [...] }), re-read when a token names an unknown key */
+  jwksFile?: string;
+  /** Verification keys given in config */
+  keys?: JsonWebKey[];
+  /** Accepted token issuer(s) */
+  issuer?: string | string[];
+  /** Accepted audience(s), usually this server's resource URL; the token's aud must contain one of them */
+  audience: string | string[];
+  /** Accepted signing algorithms (default: the RS, PS, ES and EdDSA families) */
+  algorithms?: string[];
+  /** Clock skew tolerated when checking exp and nbf, in seconds (default: 60) */
+  clockTolerance?: number;
+  /** Reject tokens without an exp claim (default: true) */
+  requireExpiration?: boolean;
+}
+
+/**
+ * OAuth 2.0 protected resource metadata (RFC 9728) served at /.well-known/oauth-protected-resource
+ */
+export interface ResourceMetadataOptions {
+  /** Resource identifier (default: URL of the MCP endpoint as requested) */
+  resource?: string;
+  /** Authorization servers issuing tokens for this server (default: jwt.issuer) */
+  authorizationServers?: string[];
+  scopesSupported?: string[];
+  resourceDocumentation?: string;
+}
+
+/**
+ * Caller identity returned by an auth validate function
+ */
+export interface AuthIdentity {
+  principal: string;
+  scopes?: string[];
+  claims?: Record<string, unknown>;
+}
+
+/**
+ * Authenticated caller of a request
+ */
+export interface AuthContext {
+  /**
+   * JWT subject (or client ID), the principal returned by validate, or
+   * otherwise `token:` followed by a fingerprint of the token
+   */
+  principal: string;
+  /** Granted scopes (the JWT scope/scp claim, or those returned by validate) */
+  scopes: string[];
+  /** Verified JWT claims, or those returned by validate */
+  claims: Record<string, unknown>;
 }
 
 /**
@@ -144,6 +656,7 @@ export interface AuthOptions {
 export interface LoggingOptions {
   level?: 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'fatal';
   pretty?: boolean;
+  /** Log file path (default: stdout, or stderr in stdio mode) */
   destination?: string;
 }
 
@@ -151,13 +664,22 @@ export interface LoggingOptions {
  * Database configuration
  */
 export interface DatabaseOptions {
-  client: 'pg' | 'mysql' | 'sqlite3';
+  client: 'pg' | 'mysql' | 'mysql2' | 'sqlite3';
   connection: string | {
     host?: string;
     port?: number;
     user?: string;
     password?: string;
     database?: string;
+    /** SQLite database file */
+    filename?: string;
+  };
+  /** Connection pool settings */
+  pool?: {
+    min?: number;
+    max?: number;
+    idleTimeoutMillis?: number;
+    acquireTimeoutMillis?: number;
   };
 }
 
@@ -172,19 +694,38 @@ export type Middleware =
  * JSON Schema definition for tool inputs/outputs
  */
 export interface JSONSchema {
-  type: string;
+  /** Absent for schemas that accept any value or combine others (anyOf, $ref, ...) */
+  type?: string | string[];
   properties?: Record<string, JSONSchema>;
   required?: string[];
-  items?: JSONSchema;
-  enum?: (string | number | boolean)[];
+  additionalProperties?: JSONSchema | boolean;
+  propertyNames?: JSONSchema;
+  items?: JSONSchema | false;
+  prefixItems?: JSONSchema[];
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  minProperties?: number;
+  maxProperties?: number;
+  enum?: (string | number | boolean | null)[];
+  const?: unknown;
   description?: string;
-  default?: string | number | boolean | null;
+  default?: unknown;
   minimum?: number;
   maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
   minLength?: number;
   maxLength?: number;
   pattern?: string;
   format?: string;
+  anyOf?: JSONSchema[];
+  oneOf?: JSONSchema[];
+  allOf?: JSONSchema[];
+  not?: JSONSchema;
+  $ref?: string;
+  $defs?: Record<string, JSONSchema>;
   [key: string]: unknown;
 }
 
@@ -199,7 +740,21 @@ export interface MCPManifest {
     name: string;
     description?: string;
     input: JSONSchema;
-    output: JSONSchema;
+    output?: JSONSchema;
+    metadata?: Record<string, string | number | boolean>;
+  }>;
+  prompts?: Array<{
+    name: string;
+    description?: string;
+    args: JSONSchema;
+    metadata?: Record<string, string | number | boolean>;
+  }>;
+  resources?: Array<{
+    name: string;
+    uri?: string;
+    uriTemplate?: string;
+    description?: string;
+    mimeType?: string;
     metadata?: Record<string, string | number | boolean>;
   }>;
   metadata?: Record<string, string | number | boolean>;
@@ -231,6 +786,8 @@ export interface DBGenerateOptions {
   tables?: string[];
   /** Generate read-only tools */
   readOnly?: boolean;
+  /** Scopes required to call the generated create/update/delete tools */
+  writeScopes?: string[];
 }
 
 /**
@@ -238,10 +795,38 @@ export interface DBGenerateOptions {
  */
 export interface ValidationResult {
   valid: boolean;
-  errors?: Array<{
-    path: string;
-    message: string;
-  }>;
+  errors?: ValidationIssue[];
+}
+
+/**
+ * One validation failure, structured so clients and models can act on it
+ */
+export interface ValidationIssue {
+  /** Dot-separated path to the offending field ('' for the value itself) */
+  path: string;
+  /** Zod issue code, e.g. 'invalid_type' or 'too_small' */
+  code: string;
+  message: string;
+  expected?: string;
+  received?: string;
+  /** Suggested fix */
+  hint?: string;
+}
+
+/**
+ * How validation failures are reported to clients
+ */
+export interface ValidationOptions {
+  /**
+   * Report invalid tool arguments as an isError result the model can correct
+   * ('result', default) or as a JSON-RPC InvalidParams error with `{ issues }` as data ('protocol')
+   */
+  inputErrors?: 'result' | 'protocol';
+  /**
+   * Text of isError results: JSON with the issues ('json', default), instructions
+   * for the model ('model'), or a custom renderer
+   */
+  format?: 'json' | 'model' | ((issues: ValidationIssue[], toolName: string) => string);
 }
 
 /**
@@ -263,6 +848,18 @@ export interface MCPServerInstance {
   registerTool: <TInput = unknown, TOutput = unknown>(
     tool: MCPToolDefinition<TInput, TOutput>
   ) => void;
+  /** Remove a registered tool */
+  unregisterTool: (name: string) => void;
+  /** Make a disabled tool visible and callable again */
+  enableTool: (name: string) => void;
+  /** Hide a tool from tools/list and reject calls to it */
+  disableTool: (name: string) => void;
+  /** Register a resource */
+  registerResource: (resource: MCPResourceDefinition) => void;
+  /** Notify sessions subscribed to a resource URI that its content changed */
+  notifyResourceUpdated: (uri: string) => Promise<void>;
+  /** Register a prompt */
+  registerPrompt: <TArgs = unknown>(prompt: MCPPromptDefinition<TArgs>) => void;
   /** Use middleware */
   use: (middleware: Middleware) => void;
   /** Use auth middleware */
@@ -275,6 +872,10 @@ export interface MCPServerInstance {
   getManifest: () => MCPManifest;
   /** Get registered tools */
   getTools: () => MCPToolDefinition<unknown, unknown>[];
+  /** Get registered resources */
+  getResources: () => MCPResourceDefinition[];
+  /** Get registered prompts */
+  getPrompts: () => MCPPromptDefinition<unknown>[];
 }
 
 /**
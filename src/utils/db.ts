@@ -25,6 +25,7 @@ export async function generateFromDatabase(connectionString: string, options: {
   outputDir: string;
   tables?: string[];
   readOnly?: boolean;
+  writeScopes?: string[];
 }): Promise<void> {
   // Parse connection string to get database client type
   const clientType = connectionString.startsWith('postgres') ? 'pg' : 
@@ -54,9 +55,9 @@ export async function generateFromDatabase(connectionString: string, options: {
 
       // Generate write tools if not read-only
       if (!options.readOnly) {
-        tools.push(generateCreateTool(table));
-        tools.push(generateUpdateTool(table));
-        tools.push(generateDeleteTool(table));
+        tools.push(generateCreateTool(table, options.writeScopes));
+        tools.push(generateUpdateTool(table, options.writeScopes));
+        tools.push(generateDeleteTool(table, options.writeScopes));
       }
     }
 
@@ -231,10 +232,10 @@ function generateSearchTool(table: DBTable): string {
 /**
  * Generate create tool
  */
-function generateCreateTool(table: DBTable): string {
+function generateCreateTool(table: DBTable, writeScopes?: string[]): string {
   return `const create_${table.name} = defineTool({
   name: 'create_${table.name}',
-  description: 'Create a new record in ${table.name} table',
+  description: 'Create a new record in ${table.name} table',${requiredScopesLine(writeScopes)}
   input: z.record(z.unknown()), // TODO: Generate proper schema from table columns
   output: z.object({ id: z.number() }),
   handler: async ({ input, ctx }) => {
@@ -247,10 +248,10 @@ function generateCreateTool(table: DBTable): string {
 /**
  * Generate update tool
  */
-function generateUpdateTool(table: DBTable): string {
+function generateUpdateTool(table: DBTable, writeScopes?: string[]): string {
   return `const update_${table.name} = defineTool({
   name: 'update_${table.name}',
-  description: 'Update a record in ${table.name} table',
+  description: 'Update a record in ${table.name} table',${requiredScopesLine(writeScopes)}
   input: z.object({
     id: z.number(),
     data: z.record(z.unknown()), // TODO: Generate proper schema from table columns
@@ -271,10 +272,10 @@ function generateUpdateTool(table: DBTable): string {
 /**
  * Generate delete tool
  */
-function generateDeleteTool(table: DBTable): string {
+function generateDeleteTool(table: DBTable, writeScopes?: string[]): string {
   return `const delete_${table.name} = defineTool({
   name: 'delete_${table.name}',
-  description: 'Delete a record from ${table.name} table',
+  description: 'Delete a record from ${table.name} table',${requiredScopesLine(writeScopes)}
   input: z.object({
     id: z.number(),
   }),
@@ -282,6 +283,15 @@ function generateDeleteTool(table: DBTable): string {
     deleted: z.boolean(),
   }),
   handler: async ({ input, ctx }) => {
+    // Destructive: confirm with the user before deleting
+    const confirmation = await ctx.elicit(
+      \`Delete record \${input.id} from ${table.name}?\`,
+      z.object({ confirm: z.boolean() })
+    );
+    if (confirmation.action !== 'accept' || !confirmation.data.confirm) {
+      return { deleted: false };
+    }
+
     const count = await ctx.db('${table.name}')
       .where({ id: input.id })
       .delete();
@@ -290,3 +300,12 @@ function generateDeleteTool(table: DBTable): string {
   },
 });`;
 }
+
+/**
+ * Generate the requiredScopes property of a write tool, if scopes were given
+ */
+function requiredScopesLine(writeScopes?: string[]): string {
+  return writeScopes && writeScopes.length > 0
+    ? `\n  requiredScopes: [${writeScopes.map((scope) => `'${scope}'`).join(', ')}],`
+    : '';
+}